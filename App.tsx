@@ -1,15 +1,19 @@
 import React, { useState, useCallback, useEffect } from 'react';
-import { ResultType, type Prompt, type AnalysisResult, type BoundingBox } from './types';
+import { ResultType, type Prompt, type AnalysisResult, type BoundingBox, type Polygon, type KeyPoint } from './types';
 import ImageDropzone from './components/ImageDropzone';
 import ImageViewer from './components/ImageViewer';
 import PromptEditor from './components/PromptEditor';
 import ResultsDisplay from './components/ResultsDisplay';
 import MaximizedTextViewer from './components/MaximizedTextViewer';
 import ImageGallery from './components/ImageGallery';
-import { CogIcon, RefreshIcon, SunIcon, MoonIcon, UploadIcon } from './components/icons';
+import { CogIcon, RefreshIcon, SunIcon, MoonIcon, UploadIcon, ScaleIcon } from './components/icons';
 import SettingsModal from './components/SettingsModal';
 import AutoPromptModal from './components/AutoPromptModal';
+import ComparisonModal from './components/ComparisonModal';
+import ComparisonView from './components/ComparisonView';
 import { useAppStore } from './store';
+import { computeTiles } from './services/tiling';
+import { countUncertainAnswers } from './services/yesNo';
 
 const RegionSelectionOverlay: React.FC<{ onCancel: () => void, selectionType: 'point' | 'bbox' | null }> = ({ onCancel, selectionType }) => {
     if (!selectionType) return null;
@@ -38,18 +42,21 @@ export default function App() {
     results,
     overlayVisibility,
     theme,
-    apiEndpoint,
-    modelName,
-    apiKey,
-    maxTokens,
-    temperature,
+    profiles,
+    defaultProfileId,
+    promptGenerationProfileId,
+    retryPolicy,
+    concurrency,
+    preprocessing,
     apiInspectorMode,
     isAnalyzing,
     analysisProgress,
     runningSinglePrompts,
     analysisStates,
-    imageBase64s,
+    processedImages,
     regionSelection,
+    bypassCache,
+    comparison,
   } = useAppStore();
 
   const {
@@ -63,6 +70,7 @@ export default function App() {
     runSingleAnalysisFlow,
     runPendingAnalysis,
     runAllImagesAnalysis,
+    setBypassCache,
     generatePrompts,
     addPrompt,
     updatePrompt,
@@ -73,11 +81,15 @@ export default function App() {
     startRegionSelection,
     cancelRegionSelection,
     completeRegionSelection,
+    runComparison,
+    cancelComparison,
+    clearComparison,
   } = useAppStore.getState();
 
   const [maximizedText, setMaximizedText] = useState<string | null>(null);
   const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(false);
   const [isAutoPromptModalOpen, setIsAutoPromptModalOpen] = useState(false);
+  const [isComparisonModalOpen, setIsComparisonModalOpen] = useState(false);
   const [isDraggingOver, setIsDraggingOver] = useState(false);
 
   useEffect(() => {
@@ -144,6 +156,40 @@ export default function App() {
         return (latestResult.data as BoundingBox[]) || [];
     });
 
+  const visiblePolygons = prompts
+    .filter(p => p.type === ResultType.Polygon && currentOverlays?.[p.id])
+    .flatMap(p => {
+        const resultHistory = currentResults?.[p.id] || [];
+        const latestResult = resultHistory[resultHistory.length - 1];
+        return latestResult?.status === 'success' ? (latestResult.data as Polygon[]) || [] : [];
+    });
+
+  const visiblePointSets = prompts
+    .filter(p => p.type === ResultType.Points && currentOverlays?.[p.id])
+    .flatMap(p => {
+        const resultHistory = currentResults?.[p.id] || [];
+        const latestResult = resultHistory[resultHistory.length - 1];
+        return latestResult?.status === 'success' ? [{ points: (latestResult.data as KeyPoint[]) || [], groupByLabel: !!p.groupPointsByLabel }] : [];
+    });
+
+  // While a comparison is shown, its boxes replace the regular overlays, one layer per profile.
+  const comparisonResults = comparison && selectedImageId ? comparison.results[selectedImageId] : undefined;
+  const comparisonLayers = comparison && comparisonResults
+    ? comparison.profiles.map(profile => ({
+        name: profile.name,
+        boxes: prompts
+          .filter(p => p.type === ResultType.BoundingBox && comparison.promptIds.includes(p.id))
+          .flatMap(p => {
+              const result = comparisonResults[p.id]?.[profile.id];
+              return result?.status === 'success' ? (result.data as BoundingBox[]) || [] : [];
+          }),
+      }))
+    : [];
+
+  const tileRegions = prompts
+    .filter(p => p.type === ResultType.BoundingBox && p.tiling?.enabled && p.tiling.showTiles)
+    .flatMap(p => computeTiles(p.tiling!));
+
   const inputRegions = prompts
     .filter(p => p.type === ResultType.Text && p.regionCoords)
     .map(p => ({
@@ -176,6 +222,14 @@ export default function App() {
             >
               <RefreshIcon />
             </button>
+            <button
+              onClick={() => setIsComparisonModalOpen(true)}
+              disabled={images.length === 0}
+              className="text-text-tertiary hover:text-brand-accent p-2 rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Compare Models"
+            >
+              <ScaleIcon />
+            </button>
             <button
               onClick={() => setIsSettingsModalOpen(true)}
               className="text-text-tertiary hover:text-brand-accent p-2 rounded-full transition-colors"
@@ -207,6 +261,8 @@ export default function App() {
                 runningSinglePrompts={runningSinglePrompts}
                 hasMultipleImages={images.length > 1}
                 onStartRegionSelection={startRegionSelection}
+                bypassCache={bypassCache}
+                onBypassCacheChange={setBypassCache}
               />
             </div>
           </div>
@@ -230,8 +286,12 @@ export default function App() {
                 {currentImage ? (
                   <ImageViewer 
                     imageUrl={currentImage.url} 
-                    boundingBoxes={visibleOverlays} 
+                    boundingBoxes={comparison ? [] : visibleOverlays} 
+                    polygons={comparison ? [] : visiblePolygons}
+                    pointSets={comparison ? [] : visiblePointSets}
                     inputRegions={inputRegions}
+                    tileRegions={tileRegions}
+                    boxLayers={comparisonLayers}
                     regionSelection={regionSelection}
                     onCompleteRegionSelection={completeRegionSelection}
                   />
@@ -246,13 +306,27 @@ export default function App() {
                   onSelectImage={setSelectedImageId}
                   onRemoveImage={removeImage}
                   analysisStates={analysisStates}
+                  uncertainCounts={Object.fromEntries(images.map(image => [image.id, countUncertainAnswers(prompts, results[image.id])]))}
                 />
               )}
             </div>
           </div>
         </main>
 
-        {selectedImageId && Object.keys(currentResults).length > 0 && (
+        {comparison && (
+          <footer className="w-full max-w-7xl mt-8">
+              <ComparisonView
+                  run={comparison}
+                  prompts={prompts}
+                  selectedImageId={selectedImageId}
+                  imageNames={Object.fromEntries(images.map(i => [i.id, i.file.name]))}
+                  onCancel={cancelComparison}
+                  onClose={clearComparison}
+              />
+          </footer>
+        )}
+
+        {!comparison && selectedImageId && Object.keys(currentResults).length > 0 && (
           <footer className="w-full max-w-7xl mt-8">
               <ResultsDisplay 
                   prompts={prompts} 
@@ -264,7 +338,7 @@ export default function App() {
                     setOverlayVisibility(selectedImageId, newVis);
                   }}
                   onMaximizeText={setMaximizedText}
-                  imageBase64={imageBase64s[selectedImageId]}
+                  imageBase64={Object.values(processedImages[selectedImageId] || {})[0]?.dataUrl ?? null}
                   imageFileName={currentImage?.file.name || null}
               />
           </footer>
@@ -280,18 +354,29 @@ export default function App() {
         isOpen={isSettingsModalOpen}
         onClose={() => setIsSettingsModalOpen(false)}
         onSave={saveSettings}
-        currentEndpoint={apiEndpoint}
-        currentModel={modelName}
-        currentApiKey={apiKey}
-        currentMaxTokens={maxTokens}
-        currentTemperature={temperature}
+        currentProfiles={profiles}
+        currentDefaultProfileId={defaultProfileId}
+        currentPromptGenerationProfileId={promptGenerationProfileId}
+        currentRetryPolicy={retryPolicy}
+        currentConcurrency={concurrency}
         currentApiInspectorMode={apiInspectorMode}
+        currentPreprocessing={preprocessing}
+      />
+      <ComparisonModal
+        isOpen={isComparisonModalOpen}
+        onClose={() => setIsComparisonModalOpen(false)}
+        onStart={(profileIds, allImages) => runComparison(profileIds, allImages ? images.map(i => i.id) : selectedImageId ? [selectedImageId] : [])}
+        profiles={profiles}
+        defaultProfileId={defaultProfileId}
+        promptCount={prompts.filter(p => !p.parentId && p.text.trim()).length}
+        imageCount={images.length}
       />
       <AutoPromptModal
         isOpen={isAutoPromptModalOpen}
         onClose={() => setIsAutoPromptModalOpen(false)}
         onGenerate={generatePrompts}
         imageIsLoaded={!!selectedImageId}
+        profileName={(profiles.find(p => p.id === promptGenerationProfileId) || profiles.find(p => p.id === defaultProfileId))?.name ?? ''}
       />
     </>
   );
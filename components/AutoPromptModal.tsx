@@ -7,6 +7,7 @@ interface AutoPromptModalProps {
   onClose: () => void;
   onGenerate: (goal: string, numPrompts: number, includeImage: boolean, allowedTypes: ResultType[], replace: boolean) => Promise<void>;
   imageIsLoaded: boolean;
+  profileName: string;
 }
 
 const ALL_TYPES = Object.values(ResultType);
@@ -18,10 +19,13 @@ const typeLabels: Record<ResultType, string> = {
     [ResultType.Number]: 'Number',
     [ResultType.YesNo]: 'Yes/No',
     [ResultType.Category]: 'Category',
+    [ResultType.MultiCategory]: 'Multi-Category',
     [ResultType.JSON]: 'JSON',
+    [ResultType.Polygon]: 'Polygon',
+    [ResultType.Points]: 'Points',
 }
 
-const AutoPromptModal: React.FC<AutoPromptModalProps> = ({ isOpen, onClose, onGenerate, imageIsLoaded }) => {
+const AutoPromptModal: React.FC<AutoPromptModalProps> = ({ isOpen, onClose, onGenerate, imageIsLoaded, profileName }) => {
   const [goal, setGoal] = useState('');
   const [numPrompts, setNumPrompts] = useState(5);
   const [includeImage, setIncludeImage] = useState(true);
@@ -139,7 +143,10 @@ const AutoPromptModal: React.FC<AutoPromptModalProps> = ({ isOpen, onClose, onGe
           
           {error && <p className="text-red-400 text-sm">{error}</p>}
         </main>
-        <footer className="p-4 bg-brand-tertiary rounded-b-lg flex justify-end">
+        <footer className="p-4 bg-brand-tertiary rounded-b-lg flex items-center justify-between gap-4">
+          <span className="text-xs text-text-tertiary truncate" title="Change the prompt generation profile in the API settings">
+            Using profile: {profileName}
+          </span>
           <button
             onClick={handleSubmit}
             disabled={isLoading}
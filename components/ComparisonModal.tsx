@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from 'react';
+import { XIcon, ScaleIcon } from './icons';
+import { type ModelProfile } from '../types';
+
+interface ComparisonModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onStart: (profileIds: string[], allImages: boolean) => void;
+  profiles: ModelProfile[];
+  defaultProfileId: string;
+  promptCount: number;
+  imageCount: number;
+}
+
+const ComparisonModal: React.FC<ComparisonModalProps> = ({ isOpen, onClose, onStart, profiles, defaultProfileId, promptCount, imageCount }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [allImages, setAllImages] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+        // Preselect the default profile and the next one, the most common comparison.
+        const ordered = [...profiles].sort((a, b) => Number(b.id === defaultProfileId) - Number(a.id === defaultProfileId));
+        setSelectedIds(ordered.slice(0, 2).map(p => p.id));
+    }
+  }, [isOpen, profiles, defaultProfileId]);
+
+  if (!isOpen) return null;
+
+  const toggleProfile = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id]);
+  };
+
+  // Columns follow the profile list order; the first selected profile is the baseline.
+  const orderedSelection = profiles.filter(p => selectedIds.includes(p.id)).map(p => p.id);
+  const requestCount = orderedSelection.length * promptCount * (allImages ? imageCount : 1);
+
+  const handleStart = () => {
+    onStart(orderedSelection, allImages);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-brand-secondary rounded-lg shadow-xl w-full max-w-lg flex flex-col" onClick={e => e.stopPropagation()}>
+        <header className="flex items-center justify-between p-4 border-b border-brand-tertiary">
+          <h2 className="text-xl font-bold text-text-primary">Compare Models</h2>
+          <button onClick={onClose} className="text-text-tertiary hover:text-text-primary">
+            <XIcon />
+          </button>
+        </header>
+        <main className="p-6 space-y-6">
+          {profiles.length < 2 ? (
+            <p className="text-sm text-text-secondary">
+              Comparisons need at least two model profiles. Add another profile in the API Settings first.
+            </p>
+          ) : (
+            <>
+              <div>
+                <span className="block text-sm font-medium text-text-secondary mb-2">Profiles to compare</span>
+                <div className="space-y-2">
+                  {profiles.map(profile => (
+                    <label key={profile.id} className="flex items-center gap-2 text-sm text-text-secondary cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(profile.id)}
+                        onChange={() => toggleProfile(profile.id)}
+                        className="h-4 w-4 rounded border-brand-tertiary text-brand-accent focus:ring-brand-accent bg-brand-primary"
+                      />
+                      <span className="font-semibold">{profile.name}</span>
+                      <span className="text-text-tertiary truncate">{profile.modelName}</span>
+                      {orderedSelection[0] === profile.id && <span className="text-xs text-brand-accent">baseline</span>}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-text-tertiary mt-2">
+                  Deltas and text diffs are shown against the baseline, the first selected profile.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm text-text-secondary cursor-pointer">
+                  <input type="radio" checked={!allImages} onChange={() => setAllImages(false)} className="h-4 w-4 text-brand-accent focus:ring-brand-accent bg-brand-primary" />
+                  Selected image
+                </label>
+                <label className="flex items-center gap-2 text-sm text-text-secondary cursor-pointer">
+                  <input type="radio" checked={allImages} onChange={() => setAllImages(true)} className="h-4 w-4 text-brand-accent focus:ring-brand-accent bg-brand-primary" />
+                  All {imageCount} images
+                </label>
+              </div>
+              <p className="text-xs text-text-tertiary">
+                Runs the {promptCount} top-level prompt{promptCount === 1 ? '' : 's'} ({requestCount} request{requestCount === 1 ? '' : 's'}, minus cached answers). Conditional prompts are skipped, since their trigger depends on each model's answer. Regular results are left untouched.
+              </p>
+            </>
+          )}
+        </main>
+        <footer className="p-4 bg-brand-tertiary rounded-b-lg flex justify-end">
+          <button
+            onClick={handleStart}
+            disabled={orderedSelection.length < 2 || promptCount === 0 || imageCount === 0}
+            className="flex items-center gap-2 bg-brand-accent hover:bg-brand-accent-hover text-white font-semibold py-2 px-4 rounded-md transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+          >
+            <ScaleIcon /> Start Comparison
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonModal;
@@ -0,0 +1,250 @@
+import React, { useMemo } from 'react';
+import { type Prompt, type AnalysisResult, type ComparisonRun, ResultType, type BoundingBox } from '../types';
+import { diffWords, answerAgreement, summarizeAgreement, formatAgreement, getProfileBoxStyle } from '../services/comparison';
+import { getYesNoAnswer } from '../services/yesNo';
+import { formatMetrics } from '../services/metrics';
+import { SpinnerIcon, XIcon, CheckCircleIcon, XCircleIcon } from './icons';
+
+interface ComparisonViewProps {
+  run: ComparisonRun;
+  prompts: Prompt[];
+  selectedImageId: string | null;
+  imageNames: Record<string, string>;
+  onCancel: () => void;
+  onClose: () => void;
+}
+
+const formatNumber = (value: number) => Number.isInteger(value) ? value.toString() : value.toFixed(2);
+
+// Green to red by agreement, so the matrix reads at a glance.
+const agreementColor = (value: number | undefined) => {
+  if (value === undefined) return 'text-text-tertiary';
+  if (value >= 0.8) return 'text-green-400';
+  if (value >= 0.5) return 'text-yellow-400';
+  return 'text-red-400';
+};
+
+const AgreementMarker: React.FC<{ agrees: boolean }> = ({ agrees }) => agrees
+  ? <span title="Agrees with the baseline"><CheckCircleIcon className="h-4 w-4 text-green-400" /></span>
+  : <span title="Differs from the baseline"><XCircleIcon className="h-4 w-4 text-red-400" /></span>;
+
+const TextDiff: React.FC<{ baseline: string, text: string }> = ({ baseline, text }) => (
+  <p className="text-sm text-text-secondary whitespace-pre-wrap max-h-64 overflow-y-auto">
+    {diffWords(baseline, text).map((part, index) => {
+      if (part.kind === 'same') return <span key={index}>{part.text}</span>;
+      if (part.kind === 'added') return <span key={index} className="bg-green-500/20 text-green-300">{part.text}</span>;
+      return <span key={index} className="bg-red-500/20 text-red-300 line-through">{part.text}</span>;
+    })}
+  </p>
+);
+
+const ComparisonCell: React.FC<{ prompt: Prompt, result?: AnalysisResult, baseline?: AnalysisResult, isBaseline: boolean, styleIndex: number, isRunning: boolean }> = ({ prompt, result, baseline, isBaseline, styleIndex, isRunning }) => {
+  if (!result) {
+    return isRunning
+      ? <div className="flex items-center gap-2 text-sm text-text-tertiary"><SpinnerIcon /> Waiting...</div>
+      : <p className="text-sm text-text-tertiary">Not run.</p>;
+  }
+  if (result.status === 'error') return <p className="text-sm text-red-400 break-words">Error: {result.error}</p>;
+
+  const comparable = !isBaseline && baseline?.status === 'success';
+  const agreement = comparable ? answerAgreement(prompt, baseline, result) : undefined;
+
+  const renderValue = () => {
+    switch (prompt.type) {
+      case ResultType.Text:
+        return comparable
+          ? <TextDiff baseline={String(baseline!.data ?? '')} text={String(result.data ?? '')} />
+          : <p className="text-sm text-text-secondary whitespace-pre-wrap max-h-64 overflow-y-auto">{String(result.data ?? '')}</p>;
+      case ResultType.YesNo:
+      case ResultType.Category: {
+        const label = prompt.type === ResultType.YesNo ? getYesNoAnswer(result) : String(result.data);
+        return (
+          <div className="flex items-center gap-2">
+            <span className="bg-brand-primary text-text-primary text-sm font-semibold px-3 py-1 rounded-full capitalize">{label}</span>
+            {comparable && <AgreementMarker agrees={agreement === 1} />}
+          </div>
+        );
+      }
+      case ResultType.MultiCategory: {
+        const selections = (result.data as string[]) || [];
+        const baselineSelections: string[] | undefined = comparable ? baseline!.data || [] : undefined;
+        return (
+          <div className="flex items-center flex-wrap gap-1">
+            {selections.length === 0 && <span className="text-sm text-text-tertiary">None</span>}
+            {selections.map(category => (
+              <span
+                key={category}
+                className={`text-xs font-semibold px-2 py-0.5 rounded-full ${baselineSelections && !baselineSelections.includes(category) ? 'bg-yellow-500/20 text-yellow-300' : 'bg-brand-primary text-text-primary'}`}
+                title={baselineSelections && !baselineSelections.includes(category) ? 'Not selected by the baseline' : undefined}
+              >
+                {category}
+              </span>
+            ))}
+          </div>
+        );
+      }
+      case ResultType.Score:
+      case ResultType.Number: {
+        const delta = comparable ? (result.data as number) - (baseline!.data as number) : undefined;
+        return (
+          <div className="flex items-baseline gap-2">
+            <span className="text-2xl font-bold text-text-primary">{formatNumber(result.data as number)}</span>
+            {delta !== undefined && (
+              <span className={`text-sm font-mono ${delta === 0 ? 'text-text-tertiary' : delta > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {delta > 0 ? '+' : delta < 0 ? '−' : '±'}{formatNumber(Math.abs(delta))}
+              </span>
+            )}
+          </div>
+        );
+      }
+      case ResultType.BoundingBox: {
+        const boxes = (result.data as BoundingBox[]) || [];
+        const style = getProfileBoxStyle(styleIndex);
+        return (
+          <div className="flex items-center gap-2 text-sm text-text-secondary">
+            <span className="inline-block w-5 h-3 border-2 rounded-sm" style={{ borderColor: style.color, borderStyle: style.borderStyle }} />
+            {boxes.length} object{boxes.length === 1 ? '' : 's'}
+            {boxes.length > 0 && <span className="text-text-tertiary truncate">({[...new Set(boxes.map(b => b.label))].join(', ')})</span>}
+          </div>
+        );
+      }
+      default:
+        return (
+          <div className="flex items-start gap-2">
+            <pre className="flex-1 min-w-0 text-xs bg-brand-primary p-2 rounded-md max-h-48 overflow-auto text-text-secondary">
+              <code>{JSON.stringify(result.data, null, 2)}</code>
+            </pre>
+            {comparable && <AgreementMarker agrees={agreement === 1} />}
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 min-w-0">
+      {renderValue()}
+      <div className="flex items-center gap-2 text-[11px] font-mono text-text-tertiary">
+        {comparable && agreement !== undefined && prompt.type !== ResultType.YesNo && prompt.type !== ResultType.Category && (
+          <span className={agreementColor(agreement)}>{formatAgreement(agreement)} agreement</span>
+        )}
+        {result.cacheHit && <span className="text-sky-400">cached</span>}
+        {result.metrics && <span className="truncate">{formatMetrics(result.metrics)}</span>}
+      </div>
+    </div>
+  );
+};
+
+const ComparisonView: React.FC<ComparisonViewProps> = ({ run, prompts, selectedImageId, imageNames, onCancel, onClose }) => {
+  const comparedPrompts = run.promptIds.map(id => prompts.find(p => p.id === id)).filter((p): p is Prompt => !!p);
+  const summary = useMemo(() => summarizeAgreement(run, comparedPrompts), [run, prompts]);
+  const imageResults = selectedImageId ? run.results[selectedImageId] : undefined;
+  const columnsStyle = { gridTemplateColumns: `repeat(${run.profiles.length}, minmax(0, 1fr))` };
+
+  return (
+    <div className="w-full">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-text-primary">Model Comparison</h2>
+          <p className="text-xs text-text-tertiary mt-1">
+            {run.status === 'running' && `Running ${run.progress.current}/${run.progress.total} requests...`}
+            {run.status === 'done' && `${run.progress.total} requests on ${run.imageIds.length} image${run.imageIds.length === 1 ? '' : 's'}.`}
+            {run.status === 'cancelled' && `Cancelled after ${run.progress.current}/${run.progress.total} requests.`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {run.status === 'running' && (
+            <button onClick={onCancel} className="bg-brand-tertiary hover:bg-opacity-80 text-text-secondary font-semibold py-1.5 px-3 rounded-md transition-colors text-sm">
+              Cancel
+            </button>
+          )}
+          <button onClick={onClose} className="text-text-tertiary hover:text-text-primary p-1" title="Close comparison and show regular results">
+            <XIcon />
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-brand-secondary rounded-lg p-4 mb-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <h4 className="font-bold text-text-primary mb-2">Agreement across all images</h4>
+          <table className="text-sm">
+            <thead>
+              <tr>
+                <th />
+                {run.profiles.map((profile, index) => (
+                  <th key={profile.id} className="px-2 py-1 text-xs font-semibold text-text-secondary text-center" style={{ color: getProfileBoxStyle(index).color }}>
+                    {profile.name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {run.profiles.map((profile, i) => (
+                <tr key={profile.id}>
+                  <th className="pr-3 py-1 text-xs font-semibold text-left" style={{ color: getProfileBoxStyle(i).color }}>{profile.name}</th>
+                  {summary.matrix[i].map((value, j) => (
+                    <td key={j} className={`px-2 py-1 text-center font-mono ${i === j ? 'text-text-tertiary' : agreementColor(value)}`}>
+                      {i === j ? '–' : formatAgreement(value)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div>
+          <h4 className="font-bold text-text-primary mb-2">By prompt</h4>
+          <ul className="space-y-1">
+            {summary.perPrompt.map(({ promptId, agreement, comparisons }) => (
+              <li key={promptId} className="flex items-center justify-between gap-4 text-xs">
+                <span className="text-text-secondary truncate">{prompts.find(p => p.id === promptId)?.text}</span>
+                <span className={`font-mono flex-shrink-0 ${agreementColor(agreement)}`} title={`${comparisons} pairwise comparison${comparisons === 1 ? '' : 's'}`}>
+                  {formatAgreement(agreement)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      {!selectedImageId || !run.imageIds.includes(selectedImageId) ? (
+        <p className="text-sm text-text-tertiary">
+          The selected image is not part of this comparison. Compared images: {run.imageIds.map(id => imageNames[id] || id).join(', ')}.
+        </p>
+      ) : (
+        <div className="flex flex-col gap-4">
+          <div className="grid gap-4 px-4" style={columnsStyle}>
+            {run.profiles.map((profile, index) => (
+              <div key={profile.id} className="text-sm font-semibold truncate" style={{ color: getProfileBoxStyle(index).color }} title={`${profile.modelName} at ${profile.apiEndpoint}`}>
+                {profile.name}{index === 0 && <span className="ml-2 text-xs font-normal text-text-tertiary">baseline</span>}
+              </div>
+            ))}
+          </div>
+          {comparedPrompts.map(prompt => {
+            const byProfile = imageResults?.[prompt.id] || {};
+            const baseline = byProfile[run.profiles[0].id];
+            return (
+              <div key={prompt.id} className="bg-brand-secondary p-4 rounded-lg">
+                <p className="text-xs text-text-tertiary italic mb-3 line-clamp-2">"{prompt.text}"</p>
+                <div className="grid gap-4" style={columnsStyle}>
+                  {run.profiles.map((profile, index) => (
+                    <ComparisonCell
+                      key={profile.id}
+                      prompt={prompt}
+                      result={byProfile[profile.id]}
+                      baseline={baseline}
+                      isBaseline={index === 0}
+                      styleIndex={index}
+                      isRunning={run.status === 'running'}
+                    />
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonView;
@@ -1,6 +1,10 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { type Prompt, type AnalysisResult, ResultType, type BoundingBox, type BboxChildResult } from '../types';
+import { type Prompt, type AnalysisResult, ResultType, type BoundingBox, type BboxChildResult, type Polygon, type KeyPoint } from '../types';
 import { DownloadIcon, ChevronDownIcon } from './icons';
+import { parseYesNo, getYesNoAnswer } from '../services/yesNo';
+import { formatArea, getLabelColor, getParentObjects, isObjectParent, polygonArea } from '../services/polygons';
+import { countPointsByLabel } from '../services/points';
+import { useAppStore } from '../store';
 
 interface ExportButtonProps {
   prompts: Prompt[];
@@ -13,8 +17,9 @@ const getResultAsString = (prompt: Prompt, result: AnalysisResult): string => {
     if (result.status !== 'success') return `${result.status}...`;
     switch (prompt.type) {
         case ResultType.Text:
-        case ResultType.YesNo:
             return result.data as string;
+        case ResultType.YesNo:
+            return `${YES_NO_LABELS[getYesNoAnswer(result)]} (${result.data})`;
         case ResultType.Number:
         case ResultType.Score:
             return (result.data as number).toString();
@@ -22,13 +27,80 @@ const getResultAsString = (prompt: Prompt, result: AnalysisResult): string => {
             const boxes = result.data as BoundingBox[];
             if (!boxes || boxes.length === 0) return "No objects detected.";
             return boxes.map(b => `${b.label}: [${b.box.join(', ')}]`).join('\n');
+        case ResultType.Polygon:
+            const polygons = result.data as Polygon[];
+            if (!polygons || polygons.length === 0) return "No objects detected.";
+            return polygons.map(p => `${p.label}: ${formatArea(polygonArea(p.points))} of the image`).join('\n');
+        case ResultType.Points:
+            const points = result.data as KeyPoint[];
+            if (!points || points.length === 0) return "No points found.";
+            return countPointsByLabel(points).map(([label, count]) => `${label}: ${count}`).join('\n');
+        case ResultType.Category:
+            return describeCategoryAnswer(result);
+        case ResultType.MultiCategory:
+            return getCategoryColumns(prompt, result).map(([category, selected]) => `${category}: ${selected}`).join('\n');
         default:
             return 'N/A';
     }
 }
 
+const OBJECT_TYPE_NAMES: Partial<Record<ResultType, string>> = {
+    [ResultType.BoundingBox]: 'Bounding Box',
+    [ResultType.Polygon]: 'Polygon',
+    [ResultType.Points]: 'Points',
+};
+
+// The matched category, with the model's own wording when it differed.
+const describeCategoryAnswer = (result: AnalysisResult): string => {
+    const match = result.categoryMatch;
+    if (match?.method === 'invalid') return `${match.raw} (invalid: not an allowed category)`;
+    if (match && match.method !== 'exact') return `${result.data} (model answered: ${match.raw})`;
+    return String(result.data);
+};
+
+// One true/false column per allowed category, then any selections outside the list (always true).
+const getCategoryColumns = (prompt: Prompt, result: AnalysisResult): [string, boolean][] => {
+    const selections = (result.data as string[]) || [];
+    const categories = prompt.categories || [];
+    return [
+        ...categories.map(category => [category, selections.includes(category)] as [string, boolean]),
+        ...selections.filter(s => !categories.includes(s)).map(s => [`${s} (invalid)`, true] as [string, boolean]),
+    ];
+};
+
+const csvCell = (value: string): string => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// CSV columns of one prompt: one true/false column per category for Multi-Category prompts, else the answer.
+const getCsvColumns = (prompt: Prompt, result: AnalysisResult): [string, string][] =>
+    prompt.type === ResultType.MultiCategory && result.status === 'success'
+        ? getCategoryColumns(prompt, result).map(([category, selected]) => [`${prompt.text} [${category}]`, String(selected)])
+        : [[prompt.text, getResultAsString(prompt, result)]];
+
+// One row per image with results; headers are the union of every row's columns, so a row may leave some empty.
+const buildCsv = (rows: [string, string][][]): string => {
+    const headers = [...new Set(rows.flatMap(row => row.map(([header]) => header)))];
+    const lines = rows.map(row => {
+        const values = new Map(row);
+        return headers.map(header => csvCell(values.get(header) ?? '')).join(',');
+    });
+    return [headers.map(csvCell).join(','), ...lines].join('\n') + '\n';
+};
+
+const YES_NO_LABELS = { yes: 'Yes', no: 'No', uncertain: 'Uncertain' };
+
+// Reasoning of the initial answer and of every follow-up turn, in conversation order.
+const getReasoningParts = (result: AnalysisResult): string[] => [
+    result.reasoning,
+    ...(result.conversationHistory || []).slice(1).map(turn => turn.reasoning),
+].filter((text): text is string => !!text);
+
+const escapeHtml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
 const ExportButton: React.FC<ExportButtonProps> = ({ prompts, results, imageBase64, imageFileName }) => {
     const [isOpen, setIsOpen] = useState(false);
+    const [includeReasoning, setIncludeReasoning] = useState(false);
+    const { images, results: allResults } = useAppStore();
     const wrapperRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
@@ -46,7 +118,7 @@ const ExportButton: React.FC<ExportButtonProps> = ({ prompts, results, imageBase
         return `${base}-results.${extension}`;
     }
 
-    const handleExport = (format: 'txt' | 'md' | 'html') => {
+    const handleExport = (format: 'txt' | 'md' | 'html' | 'csv') => {
         let content = '';
         const promptsWithResults = prompts.filter(p => results[p.id] && results[p.id].length > 0);
 
@@ -55,15 +127,28 @@ const ExportButton: React.FC<ExportButtonProps> = ({ prompts, results, imageBase
                 const latestResult = results[p.id][results[p.id].length - 1];
                 const resultText = getResultAsString(p, latestResult);
                 const prefix = p.parentId ? '  - ' : '';
-                return `${prefix}Q: ${p.text}\nA: ${resultText}\n`;
+                const reasoning = includeReasoning ? getReasoningParts(latestResult).map(text => `Reasoning:\n${text}\n`).join('') : '';
+                return `${prefix}Q: ${p.text}\n${reasoning}A: ${resultText}\n`;
             }).join('\n');
         } else if (format === 'md') {
             content = promptsWithResults.map(p => {
                 const latestResult = results[p.id][results[p.id].length - 1];
                 const resultText = getResultAsString(p, latestResult);
                 const prefix = p.parentId ? '  - ' : '## ';
-                return `${prefix}Q: ${p.text}\n\n**A:**\n\`\`\`\n${resultText}\n\`\`\`\n`;
+                const reasoning = includeReasoning
+                    ? getReasoningParts(latestResult).map(text => `<details><summary>Reasoning</summary>\n\n${text}\n\n</details>\n\n`).join('')
+                    : '';
+                return `${prefix}Q: ${p.text}\n\n${reasoning}**A:**\n\`\`\`\n${resultText}\n\`\`\`\n`;
             }).join('\n');
+        } else if (format === 'csv') {
+            const rows = images.flatMap(image => {
+                const imageResults = allResults[image.id] || {};
+                const columns = prompts
+                    .filter(p => imageResults[p.id]?.length > 0)
+                    .flatMap(p => getCsvColumns(p, imageResults[p.id][imageResults[p.id].length - 1]));
+                return columns.length > 0 ? [[['Image', image.file.name] as [string, string], ...columns]] : [];
+            });
+            content = buildCsv(rows);
         } else if (format === 'html') {
             const latestResultsForExport: Record<string, AnalysisResult> = {};
             prompts.forEach(p => {
@@ -72,14 +157,14 @@ const ExportButton: React.FC<ExportButtonProps> = ({ prompts, results, imageBase
                     latestResultsForExport[p.id] = history[history.length - 1];
                 }
             });
-            content = generateHtmlReport(prompts, latestResultsForExport, imageBase64, imageFileName);
+            content = generateHtmlReport(prompts, latestResultsForExport, imageBase64, imageFileName, includeReasoning);
         }
 
-        const blob = new Blob([content], { type: `text/${format === 'html' ? 'html' : 'plain'}` });
+        const blob = new Blob([content], { type: `text/${format === 'html' || format === 'csv' ? format : 'plain'}` });
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = getFilename(format);
+        a.download = format === 'csv' && images.length > 1 ? 'batch-results.csv' : getFilename(format);
         document.body.appendChild(a);
         a.click();
         document.body.removeChild(a);
@@ -113,6 +198,22 @@ const ExportButton: React.FC<ExportButtonProps> = ({ prompts, results, imageBase
                                 As HTML (.html)
                             </a>
                         </li>
+                        <li>
+                            <a href="#" onClick={(e) => { e.preventDefault(); handleExport('csv'); }} className="block px-4 py-2 text-sm text-text-secondary hover:bg-brand-tertiary">
+                                As CSV, all images (.csv)
+                            </a>
+                        </li>
+                        <li className="border-t border-brand-tertiary mt-1 pt-1">
+                            <label className="flex items-center gap-2 px-4 py-2 text-sm text-text-secondary cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={includeReasoning}
+                                    onChange={(e) => setIncludeReasoning(e.target.checked)}
+                                    className="h-4 w-4 rounded border-brand-tertiary text-brand-accent focus:ring-brand-accent bg-brand-primary"
+                                />
+                                Include reasoning
+                            </label>
+                        </li>
                     </ul>
                 </div>
             )}
@@ -122,14 +223,16 @@ const ExportButton: React.FC<ExportButtonProps> = ({ prompts, results, imageBase
 
 export default ExportButton;
 
-const generateHtmlReport = (prompts: Prompt[], results: Record<string, AnalysisResult>, imageBase64: string | null, imageFileName: string | null): string => {
+const generateHtmlReport = (prompts: Prompt[], results: Record<string, AnalysisResult>, imageBase64: string | null, imageFileName: string | null, includeReasoning: boolean): string => {
     const topLevelPrompts = prompts.filter(p => !p.parentId && results[p.id]);
+
+    const renderReasoning = (parts: (string | undefined)[]): string => includeReasoning
+        ? parts.filter(Boolean).map(text => `<details class="reasoning"><summary>Reasoning</summary><p>${escapeHtml(text!)}</p></details>`).join('')
+        : '';
     
-    const renderBboxChildResultData = (prompt: Prompt, resultData: string | number | null): string => {
+    const renderBboxChildResultData = (prompt: Prompt, resultData: string | number | null, error?: string): string => {
+        if (error) return `<p class="error-text">Error: ${escapeHtml(error)}</p>`;
         if (resultData === null) return `<p>N/A</p>`;
-        if (typeof resultData === 'string' && resultData.startsWith('Error:')) {
-            return `<p class="error-text">${resultData}</p>`;
-        }
 
         switch (prompt.type) {
             case ResultType.Text:
@@ -138,9 +241,8 @@ const generateHtmlReport = (prompts: Prompt[], results: Record<string, AnalysisR
                 const num = parseFloat(resultData as any);
                 return `<span class="big-number">${isNaN(num) ? 'N/A' : num}</span>`;
             case ResultType.YesNo:
-                const answer = String(resultData).toLowerCase().trim();
-                const isYes = answer.includes('yes');
-                return `<p class="yes-no ${isYes ? 'yes' : 'no'}">${isYes ? 'Yes' : 'No'}</p>`;
+                const answer = parseYesNo(String(resultData));
+                return `<p class="yes-no ${answer}">${YES_NO_LABELS[answer]}</p>`;
             case ResultType.Score:
                 const score = parseFloat(resultData as any);
                 if (isNaN(score)) return `<span class="big-number">N/A</span>`;
@@ -187,17 +289,38 @@ const generateHtmlReport = (prompts: Prompt[], results: Record<string, AnalysisR
                 `;
             case ResultType.YesNo:
                  if (typeof data !== 'string') return `<p class="error-text">Invalid data format for Yes/No result.</p>`;
-                 const isYes = (data as string).toLowerCase().includes('yes');
-                 return `<p class="yes-no ${isYes ? 'yes' : 'no'}">${data}</p>`;
+                 return `<p class="yes-no ${getYesNoAnswer(result)}">${escapeHtml(data)}</p>`;
+            case ResultType.Category:
+                return `<p>${escapeHtml(describeCategoryAnswer(result))}</p>`;
+            case ResultType.MultiCategory:
+                if (!Array.isArray(data)) return `<p class="error-text">Invalid data format for Multi-Category result.</p>`;
+                const columns = getCategoryColumns(prompt, result);
+                return `
+                    <table class="category-table">
+                        <tr>${columns.map(([category]) => `<th>${escapeHtml(category)}</th>`).join('')}</tr>
+                        <tr>${columns.map(([, selected]) => `<td class="${selected ? 'yes' : 'no'}">${selected}</td>`).join('')}</tr>
+                    </table>
+                `;
             case ResultType.BoundingBox:
-                if (!Array.isArray(data)) return `<p class="error-text">Invalid data format for Bounding Box result.</p>`;
-                const boxes = data as BoundingBox[];
+            case ResultType.Polygon:
+            case ResultType.Points:
+                if (!Array.isArray(data)) return `<p class="error-text">Invalid data format for ${OBJECT_TYPE_NAMES[prompt.type]} result.</p>`;
+                const boxes = getParentObjects(prompt, data);
                 if (!boxes || boxes.length === 0) return `<p>No objects detected.</p>`;
+                // Polygons are listed with their area and points with their position; their children were asked about the box around them.
+                const describeObject = (index: number) => {
+                    if (prompt.type === ResultType.Polygon) return `${formatArea(polygonArea((data as Polygon[])[index].points))} of the image`;
+                    if (prompt.type === ResultType.Points) return `[${(data as KeyPoint[])[index].point.join(', ')}]`;
+                    return `[${boxes[index].box.join(', ')}]`;
+                };
                 
                 const childrenPrompts = prompts.filter(p => p.parentId === prompt.id && results[p.id]);
 
                 if (childrenPrompts.length === 0) {
-                    return `<ul>${boxes.map(b => `<li><b>${b.label}:</b> [${b.box.join(', ')}]</li>`).join('')}</ul>`;
+                    const counts = prompt.type === ResultType.Points
+                        ? `<p class="bbox-summary">${countPointsByLabel(data as KeyPoint[]).map(([label, count]) => `${escapeHtml(label)}: <b>${count}</b>`).join(', ')}</p>`
+                        : '';
+                    return `${counts}<ul>${boxes.map((b, index) => `<li><b>${b.label}:</b> ${describeObject(index)}</li>`).join('')}</ul>`;
                 }
                 
                 const colors = ['#f43f5e', '#3b82f6', '#22c55e', '#eab308', '#a855f7', '#ec4899'];
@@ -206,13 +329,13 @@ const generateHtmlReport = (prompts: Prompt[], results: Record<string, AnalysisR
                     <div class="bbox-children-container">
                         ${boxes.map((box, index) => `
                             <div class="bbox-child-card">
-                                <h5 class="bbox-label" style="border-left-color: ${colors[index % colors.length]};">
-                                    ${box.label}
+                                <h5 class="bbox-label" style="border-left-color: ${prompt.type === ResultType.BoundingBox ? colors[index % colors.length] : getLabelColor(box.label)};">
+                                    ${box.label}${prompt.type === ResultType.BoundingBox ? '' : ` (${describeObject(index)})`}
                                 </h5>
                                 <div class="child-results-wrapper">
                                 ${childrenPrompts.map(childPrompt => {
                                     const childResult = results[childPrompt.id];
-                                    if (!childResult || childResult.status !== 'success' || !Array.isArray(childResult.data)) return '';
+                                    if (!childResult || !Array.isArray(childResult.data)) return ''; // Failed objects are listed with their error
                                     
                                     const childResultDataArray = childResult.data as BboxChildResult[];
                                     const boxResult = childResultDataArray.find(cr => 
@@ -224,7 +347,8 @@ const generateHtmlReport = (prompts: Prompt[], results: Record<string, AnalysisR
                                         return `
                                             <div class="child-result-item">
                                                 <p class="prompt-text-mini">${childPrompt.text}</p>
-                                                ${renderBboxChildResultData(childPrompt, boxResult.resultData)}
+                                                ${renderReasoning([boxResult.reasoning])}
+                                                ${renderBboxChildResultData(childPrompt, boxResult.resultData, boxResult.error)}
                                             </div>
                                         `;
                                     }
@@ -263,14 +387,20 @@ const generateHtmlReport = (prompts: Prompt[], results: Record<string, AnalysisR
         .progress-bar-bg { background-color: #383a40; border-radius: 99px; height: 10px; width: 100%; }
         .progress-bar { background-color: #5865f2; border-radius: 99px; height: 100%; }
         .yes-no { font-size: 1.5rem; font-weight: bold; }
-        .yes { color: #22c55e; } .no { color: #f43f5e; }
+        .yes { color: #22c55e; } .no { color: #f43f5e; } .uncertain { color: #eab308; }
         ul { padding-left: 1.5rem; color: #b8bac1; }
         .error-text { color: #f43f5e; font-style: italic; }
+        .category-table { border-collapse: collapse; font-size: 0.9em; }
+        .category-table th, .category-table td { border: 1px solid #383a40; padding: 0.25rem 0.75rem; text-align: center; }
+        .category-table th { color: #b8bac1; font-weight: normal; }
         .bbox-summary { margin-bottom: 1rem; color: #b8bac1; }
         .bbox-children-container { display: flex; flex-direction: column; gap: 1rem; }
         .bbox-child-card { background-color: #1e1f22; border-radius: 6px; padding: 1rem; }
         .bbox-label { font-size: 1.1em; font-weight: bold; color: #f2f3f5; margin: 0 0 0.75rem 0; padding-left: 0.75rem; border-left: 4px solid #5865f2; }
         .child-results-wrapper { padding-left: calc(0.75rem + 4px); display: flex; flex-direction: column; gap: 1rem; }
+        .reasoning { margin-bottom: 1rem; color: #949ba4; font-size: 0.85em; }
+        .reasoning summary { cursor: pointer; font-weight: bold; }
+        .reasoning p { white-space: pre-wrap; border-left: 2px solid #383a40; padding-left: 0.75rem; }
         .child-result-item .prompt-text-mini { font-size: 0.8em; color: #949ba4; margin: 0 0 0.25rem 0; font-style: italic; }
         @media (max-width: 900px) { .grid { grid-template-columns: 1fr; } }
     </style>
@@ -286,11 +416,13 @@ const generateHtmlReport = (prompts: Prompt[], results: Record<string, AnalysisR
                 ${topLevelPrompts.map(p => `
                     <div class="card">
                         <p class="prompt">${p.text}</p>
+                        ${renderReasoning(getReasoningParts(results[p.id]))}
                         <div class="result-content">${renderResult(p, results[p.id])}</div>
                     </div>
-                    ${prompts.filter(child => child.parentId === p.id && results[child.id] && p.type !== ResultType.BoundingBox).map(childP => `
+                    ${prompts.filter(child => child.parentId === p.id && results[child.id] && !isObjectParent(p)).map(childP => `
                         <div class="card card-child">
                             <p class="prompt">${childP.text}</p>
+                            ${renderReasoning(getReasoningParts(results[childP.id]))}
                             <div class="result-content">${renderResult(childP, results[childP.id])}</div>
                         </div>
                     `).join('')}
@@ -1,5 +1,5 @@
 import React from 'react';
-import { CheckCircleIcon, XIcon, SpinnerIcon, XCircleIcon } from './icons';
+import { CheckCircleIcon, XIcon, SpinnerIcon, XCircleIcon, ExclamationIcon } from './icons';
 import { AnalysisResult, AnalysisStatus } from '../types';
 
 interface ImageGalleryProps {
@@ -8,15 +8,17 @@ interface ImageGalleryProps {
   onSelectImage: (id: string) => void;
   onRemoveImage: (id: string) => void;
   analysisStates: Record<string, AnalysisStatus>;
+  uncertainCounts: Record<string, number>; // Yes/No prompts answered 'uncertain', per image
 }
 
-const ImageGallery: React.FC<ImageGalleryProps> = ({ images, selectedImageId, onSelectImage, onRemoveImage, analysisStates }) => {
+const ImageGallery: React.FC<ImageGalleryProps> = ({ images, selectedImageId, onSelectImage, onRemoveImage, analysisStates, uncertainCounts }) => {
   return (
     <div className="mt-4 pt-4 border-t border-brand-tertiary">
       <div className="flex space-x-3 overflow-x-auto p-2">
         {images.map(image => {
           const isSelected = image.id === selectedImageId;
           const status = analysisStates[image.id] || 'idle';
+          const uncertainCount = uncertainCounts[image.id] || 0;
           
           return (
             <div 
@@ -49,6 +51,15 @@ const ImageGallery: React.FC<ImageGalleryProps> = ({ images, selectedImageId, on
                   </div>
               )}
 
+              {uncertainCount > 0 && (
+                  <div
+                    className="absolute top-1 left-1 z-20 p-0.5 bg-black bg-opacity-60 rounded-full"
+                    title={`${uncertainCount} Yes/No answer${uncertainCount === 1 ? ' was' : 's were'} uncertain`}
+                  >
+                      <ExclamationIcon className="h-4 w-4 text-yellow-400" />
+                  </div>
+              )}
+
               <div className="absolute bottom-0 left-0 right-0 p-1 bg-black bg-opacity-50 z-10">
                   <p className="text-white text-xs truncate">{image.file.name}</p>
               </div>
@@ -1,6 +1,9 @@
 
 import React, { useRef, useState } from 'react';
-import { type BoundingBox, type Prompt } from '../types';
+import { type BoundingBox, type KeyPoint, type Polygon, type Prompt } from '../types';
+import { getProfileBoxStyle } from '../services/comparison';
+import { getLabelColor } from '../services/polygons';
+import { numberPoints } from '../services/points';
 
 interface InputRegion {
   id: string;
@@ -11,12 +14,16 @@ interface InputRegion {
 interface ImageViewerProps {
   imageUrl: string;
   boundingBoxes: BoundingBox[];
+  polygons?: Polygon[];
+  pointSets?: { points: KeyPoint[], groupByLabel: boolean }[]; // One set per Points prompt
   inputRegions: InputRegion[];
+  tileRegions?: [number, number, number, number][]; // Tiled detection layout, drawn for debugging
+  boxLayers?: { name: string, boxes: BoundingBox[] }[]; // One layer per compared model, each in its own style
   regionSelection: { promptId: string | null, type: 'point' | 'bbox' | null };
   onCompleteRegionSelection: (coords: [number, number] | [number, number, number, number]) => void;
 }
 
-const ImageViewer: React.FC<ImageViewerProps> = ({ imageUrl, boundingBoxes, inputRegions, regionSelection, onCompleteRegionSelection }) => {
+const ImageViewer: React.FC<ImageViewerProps> = ({ imageUrl, boundingBoxes, polygons = [], pointSets = [], inputRegions, tileRegions = [], boxLayers = [], regionSelection, onCompleteRegionSelection }) => {
   const colors = [
     '#f43f5e', '#3b82f6', '#22c55e', '#eab308', '#a855f7', '#ec4899'
   ];
@@ -141,6 +148,16 @@ const ImageViewer: React.FC<ImageViewerProps> = ({ imageUrl, boundingBoxes, inpu
           className="max-w-full max-h-full object-contain rounded-md block select-none"
           draggable={false}
         />
+        {/* Render Tile Layout */}
+        {tileRegions.map(([x1, y1, x2, y2], index) => (
+          <div
+            key={`tile-${index}`}
+            className="absolute border border-dashed border-cyan-300 pointer-events-none"
+            style={{ left: `${x1 / 10}%`, top: `${y1 / 10}%`, width: `${(x2 - x1) / 10}%`, height: `${(y2 - y1) / 10}%` }}
+          >
+            <span className="absolute top-0.5 left-1 text-[10px] font-mono text-cyan-200 drop-shadow">{index + 1}</span>
+          </div>
+        ))}
         {/* Render Saved Input Regions */}
         {inputRegions.map(renderRegion)}
 
@@ -180,6 +197,75 @@ const ImageViewer: React.FC<ImageViewerProps> = ({ imageUrl, boundingBoxes, inpu
             </div>
           );
         })}
+        {/* Render Polygon Results, filled per label on a 1000x1000 canvas stretched over the image */}
+        {polygons.length > 0 && (
+          <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1000 1000" preserveAspectRatio="none">
+            {polygons.map((polygon, index) => {
+              const color = getLabelColor(polygon.label);
+              return (
+                <polygon
+                  key={index}
+                  points={polygon.points.map(([x, y]) => `${x},${y}`).join(' ')}
+                  fill={color}
+                  fillOpacity={0.3}
+                  stroke={color}
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                  strokeLinejoin="round"
+                />
+              );
+            })}
+          </svg>
+        )}
+        {polygons.map((polygon, index) => {
+          // Labelled at the topmost vertex, like box labels sit on the top edge.
+          const [x, y] = polygon.points.reduce((top, point) => point[1] < top[1] ? point : top);
+          return (
+            <span
+              key={`polygon-label-${index}`}
+              className="absolute -translate-y-full text-xs font-semibold px-1.5 py-0.5 rounded-sm pointer-events-none whitespace-nowrap"
+              style={{ left: `${x / 10}%`, top: `${y / 10}%`, backgroundColor: getLabelColor(polygon.label), color: 'white' }}
+            >
+              {polygon.label}
+            </span>
+          );
+        })}
+        {/* Render Point Results as numbered markers */}
+        {pointSets.map((set, setIndex) => {
+          const numbers = numberPoints(set.points, set.groupByLabel);
+          return set.points.map((keyPoint, index) => (
+            <span
+              key={`point-${setIndex}-${index}`}
+              className="absolute -translate-x-1/2 -translate-y-1/2 min-w-[1.25rem] h-5 px-1 flex items-center justify-center rounded-full border-2 border-white text-[10px] font-bold text-white shadow-lg pointer-events-none"
+              style={{ left: `${keyPoint.point[0] / 10}%`, top: `${keyPoint.point[1] / 10}%`, backgroundColor: set.groupByLabel ? getLabelColor(keyPoint.label) : colors[setIndex % colors.length] }}
+            >
+              {numbers[index]}
+            </span>
+          ));
+        })}
+        {/* Render Comparison Layers */}
+        {boxLayers.map((layer, layerIndex) => {
+          const style = getProfileBoxStyle(layerIndex);
+          return layer.boxes.map((bbox, index) => {
+            const [x1, y1, x2, y2] = bbox.box;
+            if (x1 >= x2 || y1 >= y2) return null;
+            return (
+              <div
+                key={`layer-${layerIndex}-${index}`}
+                className="absolute border-2 rounded-sm pointer-events-none"
+                style={{ left: `${x1 / 10}%`, top: `${y1 / 10}%`, width: `${(x2 - x1) / 10}%`, height: `${(y2 - y1) / 10}%`, borderColor: style.color, borderStyle: style.borderStyle }}
+                title={`${layer.name}: ${bbox.label}`}
+              >
+                <span
+                  className="absolute -top-5 left-0 text-[10px] font-semibold px-1 rounded-sm whitespace-nowrap"
+                  style={{ backgroundColor: style.color, color: 'white' }}
+                >
+                  {bbox.label}
+                </span>
+              </div>
+            );
+          });
+        })}
         {/* Render temporary drawing box */}
         {renderDrawingBox()}
       </div>
@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { type Prompt } from '../types';
-import { XIcon, TrashIcon, SaveIcon, FolderOpenIcon, DownloadIcon } from './icons';
+import { type Prompt, type PromptSet } from '../types';
+import { XIcon, TrashIcon, SaveIcon, FolderOpenIcon, DownloadIcon, PlusIcon } from './icons';
+import { useAppStore } from '../store';
+import { VARIABLE_NAME_PATTERN } from '../services/templates';
 
 interface ManagePromptsModalProps {
   isOpen: boolean;
@@ -11,8 +13,13 @@ interface ManagePromptsModalProps {
 
 const STORAGE_KEY = 'image-analyst-prompt-sets';
 
+// Sets saved before system prompts existed are bare prompt arrays.
+const toPromptSet = (stored: Prompt[] | PromptSet): PromptSet => Array.isArray(stored) ? { prompts: stored } : stored;
+const isValidPromptList = (value: any): value is Prompt[] => Array.isArray(value) && value.every(p => p.id && p.text && p.type);
+
 const ManagePromptsModal: React.FC<ManagePromptsModalProps> = ({ isOpen, onClose, prompts, setPrompts }) => {
-  const [savedSets, setSavedSets] = useState<Record<string, Prompt[]>>({});
+  const { systemPrompt, setSystemPrompt, templateVariables, setTemplateVariables } = useAppStore();
+  const [savedSets, setSavedSets] = useState<Record<string, Prompt[] | PromptSet>>({});
   const [newSetName, setNewSetName] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -33,19 +40,38 @@ const ManagePromptsModal: React.FC<ManagePromptsModalProps> = ({ isOpen, onClose
       alert("Please enter a name for the prompt set.");
       return;
     }
-    const newSavedSets = { ...savedSets, [newSetName.trim()]: prompts };
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(newSavedSets));
+    const promptSet: PromptSet = { prompts, ...(systemPrompt.trim() && { systemPrompt }), ...(templateVariables.length > 0 && { variables: templateVariables }) };
+    const newSavedSets = { ...savedSets, [newSetName.trim()]: promptSet };
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(newSavedSets));
+    } catch (error) {
+      // Few-shot example images count towards the browser's storage quota.
+      alert(`Could not save the prompt set: ${error instanceof Error ? error.message : "Unknown error"}. Remove some example images or export the set to a file instead.`);
+      return;
+    }
     setSavedSets(newSavedSets);
     setNewSetName('');
   };
 
   const handleLoad = (setName: string) => {
     if (savedSets[setName]) {
-      setPrompts(savedSets[setName]);
+      const promptSet = toPromptSet(savedSets[setName]);
+      setPrompts(promptSet.prompts);
+      setSystemPrompt(promptSet.systemPrompt || '');
+      setTemplateVariables(promptSet.variables || []);
       onClose();
     }
   };
 
+  const updateVariable = (index: number, change: { name?: string, value?: string }) =>
+    setTemplateVariables(templateVariables.map((v, i) => i === index ? { ...v, ...change } : v));
+  const variableNameError = (name: string, index: number) => {
+    if (!name) return 'Name required';
+    if (!VARIABLE_NAME_PATTERN.test(name)) return 'Letters, digits, _ and - only';
+    if (templateVariables.findIndex(v => v.name === name) !== index) return 'Duplicate name';
+    return null;
+  };
+
   const handleDelete = (setName: string) => {
     if (window.confirm(`Are you sure you want to delete the prompt set "${setName}"?`)) {
       const newSavedSets = { ...savedSets };
@@ -56,7 +82,11 @@ const ManagePromptsModal: React.FC<ManagePromptsModalProps> = ({ isOpen, onClose
   };
 
   const handleExport = () => {
-    const jsonString = `data:text/json;charset=utf-8,${encodeURIComponent(JSON.stringify(prompts, null, 2))}`;
+    // Without a system prompt the file keeps the plain array format older versions can import.
+    const exported: Prompt[] | PromptSet = systemPrompt.trim() || templateVariables.length > 0
+      ? { prompts, ...(systemPrompt.trim() && { systemPrompt }), ...(templateVariables.length > 0 && { variables: templateVariables }) }
+      : prompts;
+    const jsonString = `data:text/json;charset=utf-8,${encodeURIComponent(JSON.stringify(exported, null, 2))}`;
     const link = document.createElement('a');
     link.href = jsonString;
     link.download = 'image-analyst-prompts.json';
@@ -73,8 +103,11 @@ const ManagePromptsModal: React.FC<ManagePromptsModalProps> = ({ isOpen, onClose
         const text = e.target?.result as string;
         const parsed = JSON.parse(text);
         // Basic validation
-        if (Array.isArray(parsed) && parsed.every(p => p.id && p.text && p.type)) {
-          setPrompts(parsed);
+        const promptSet = Array.isArray(parsed) ? { prompts: parsed } : parsed;
+        if (isValidPromptList(promptSet?.prompts)) {
+          setPrompts(promptSet.prompts);
+          setSystemPrompt(typeof promptSet.systemPrompt === 'string' ? promptSet.systemPrompt : '');
+          setTemplateVariables(Array.isArray(promptSet.variables) ? promptSet.variables.filter((v: any) => typeof v?.name === 'string' && typeof v?.value === 'string') : []);
           onClose();
         } else {
           throw new Error("Invalid prompt file format.");
@@ -104,6 +137,59 @@ const ManagePromptsModal: React.FC<ManagePromptsModalProps> = ({ isOpen, onClose
         </header>
         
         <main className="p-6 overflow-y-auto space-y-6">
+          <div>
+            <h3 className="text-lg font-semibold text-text-primary mb-3">System Prompt</h3>
+            <textarea
+              value={systemPrompt}
+              onChange={(e) => setSystemPrompt(e.target.value)}
+              placeholder="Instructions for every prompt in this set, e.g. your category definitions..."
+              className="w-full h-24 bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none resize-y"
+            />
+            <p className="text-xs text-text-tertiary mt-1">
+              Sent as a system message before every prompt, followed by the prompt's own system prompt if it has one. Saved, exported and loaded together with the prompts.
+            </p>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-semibold text-text-primary mb-3">Variables</h3>
+            <div className="space-y-2">
+              {templateVariables.map((variable, index) => {
+                const error = variableNameError(variable.name, index);
+                return (
+                  <div key={index} className="flex items-start gap-2">
+                    <div className="w-1/3">
+                      <input
+                        type="text"
+                        value={variable.name}
+                        onChange={(e) => updateVariable(index, { name: e.target.value.trim() })}
+                        placeholder="name"
+                        className={`w-full bg-brand-primary p-2 rounded-md text-sm text-text-primary font-mono focus:ring-2 focus:ring-brand-accent focus:outline-none ${error ? 'ring-1 ring-red-500' : ''}`}
+                      />
+                      {error && <p className="text-red-500 text-xs mt-1">{error}</p>}
+                    </div>
+                    <input
+                      type="text"
+                      value={variable.value}
+                      onChange={(e) => updateVariable(index, { value: e.target.value })}
+                      placeholder="value"
+                      className="flex-grow bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
+                    />
+                    <button onClick={() => setTemplateVariables(templateVariables.filter((_, i) => i !== index))} className="text-text-tertiary hover:text-red-500 pt-2"><TrashIcon /></button>
+                  </div>
+                );
+              })}
+              <button
+                onClick={() => setTemplateVariables([...templateVariables, { name: '', value: '' }])}
+                className="flex items-center gap-2 bg-brand-tertiary hover:bg-opacity-80 text-text-secondary font-semibold py-1.5 px-3 rounded-md transition-colors text-sm"
+              >
+                <PlusIcon /> Add Variable
+              </button>
+            </div>
+            <p className="text-xs text-text-tertiary mt-1">
+              Use them in prompt text as {'{{name}}'}. Built in: {'{{image.filename}}'}, {'{{image.width}}'}, {'{{image.height}}'}, {'{{parent.answer}}'}, {'{{bbox.label}}'} and {'{{result:<prompt id>}}'} for another prompt's answer on the same image.
+            </p>
+          </div>
+
           {/* Local Storage Section */}
           <div>
             <h3 className="text-lg font-semibold text-text-primary mb-3">Browser Storage</h3>
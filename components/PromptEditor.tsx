@@ -1,9 +1,12 @@
 import React, { useState } from 'react';
-import { type Prompt, type AnalysisResult, ResultType } from '../types';
+import { type Prompt, type AnalysisResult, ResultType, type ExtraImageInput } from '../types';
 import { PlusIcon, TrashIcon, PlayIcon, SitemapIcon, DragHandleIcon, SpinnerIcon, SparklesIcon, CogIcon, MapPinIcon, ViewfinderCircleIcon, XCircleIcon } from './icons';
 import ManagePromptsModal from './ManagePromptsModal';
 import PromptSettingsModal from './PromptSettingsModal';
 import { useAppStore } from '../store';
+import { supportsExtraImages } from '../services/api';
+import { isObjectParent } from '../services/polygons';
+import { BUILT_IN_VARIABLES, createTemplateContext, hasPlaceholders, resolveTemplate, validateTemplate } from '../services/templates';
 
 interface PromptCardProps {
   prompt: Prompt;
@@ -20,9 +23,61 @@ interface PromptCardProps {
   isPromptRunning: boolean;
 }
 
+// Shows what the model will receive on the selected image, and placeholders that can never resolve.
+const TemplatePreview: React.FC<{ prompt: Prompt, allPrompts: Prompt[] }> = ({ prompt, allPrompts }) => {
+  const { images, selectedImageId, results, processedImages, templateVariables } = useAppStore();
+  const errors = validateTemplate(prompt, allPrompts, templateVariables);
+  const image = images.find(i => i.id === selectedImageId);
+  const context = image && createTemplateContext({
+    prompt,
+    prompts: allPrompts,
+    imageResults: results[image.id],
+    fileName: image.file.name,
+    imageScale: Object.values(processedImages[image.id] || {})[0],
+    variables: templateVariables,
+  });
+
+  return (
+    <div className="text-xs bg-brand-primary rounded-md p-2 space-y-1">
+      {errors.map(error => <p key={error} className="text-red-400">{error}</p>)}
+      {context ? (
+        <p className="text-text-secondary whitespace-pre-wrap">
+          <span className="font-semibold text-text-tertiary">Preview: </span>{resolveTemplate(prompt.text, context)}
+        </p>
+      ) : (
+        <p className="text-text-tertiary italic">Select an image to preview the resolved text.</p>
+      )}
+    </div>
+  );
+};
+
 const PromptCard: React.FC<PromptCardProps> = ({ prompt, allPrompts, results, onUpdate, onDelete, onRun, onAddChild, onOpenSettings, onStartRegionSelection, isAnalyzing, imageLoaded, isPromptRunning }) => {
   const isChild = !!prompt.parentId;
   const parentPrompt = isChild ? allPrompts.find(p => p.id === prompt.parentId) : null;
+  const profileOverride = useAppStore(state => state.profiles.find(p => p.id === prompt.profileId));
+  const galleryImages = useAppStore(state => state.images);
+  const templateVariables = useAppStore(state => state.templateVariables);
+  const extraImages = prompt.extraImages || [];
+
+  // Options are encoded as "previous", "next" or "reference:<file name>".
+  const addExtraImage = (value: string) => {
+    if (!value) return;
+    const input: ExtraImageInput = value.startsWith('reference:')
+      ? { kind: 'reference', imageName: value.substring('reference:'.length) }
+      : { kind: value as 'previous' | 'next' };
+    onUpdate(prompt.id, { extraImages: [...extraImages, input] });
+  };
+  const removeExtraImage = (index: number) => {
+    const next = extraImages.filter((_, i) => i !== index);
+    onUpdate(prompt.id, { extraImages: next.length > 0 ? next : undefined });
+  };
+  const hasInput = (kind: 'previous' | 'next') => extraImages.some(input => input.kind === kind);
+  const insertPlaceholder = (placeholder: string) => {
+    if (placeholder) onUpdate(prompt.id, { text: `${prompt.text}${prompt.text && !prompt.text.endsWith(' ') ? ' ' : ''}{{${placeholder}}}` });
+  };
+  const otherPrompts = allPrompts.filter(p => p.id !== prompt.id);
+  const referenceNames = [...new Set(galleryImages.map(image => image.file.name))]
+    .filter(name => !extraImages.some(input => input.kind === 'reference' && input.imageName === name));
 
   const handleTypeChange = (newType: ResultType) => {
     const update: Partial<Prompt> = { type: newType };
@@ -33,7 +88,7 @@ const PromptCard: React.FC<PromptCardProps> = ({ prompt, allPrompts, results, on
   };
   
   const needsConfiguration =
-    (prompt.type === ResultType.Category && (!prompt.categories || prompt.categories.length === 0)) ||
+    ((prompt.type === ResultType.Category || prompt.type === ResultType.MultiCategory) && (!prompt.categories || prompt.categories.length === 0)) ||
     (prompt.type === ResultType.JSON && (!prompt.jsonSchema || prompt.jsonSchema.trim() === ''));
 
   const hasResult = results[prompt.id] && results[prompt.id].length > 0;
@@ -62,6 +117,29 @@ const PromptCard: React.FC<PromptCardProps> = ({ prompt, allPrompts, results, on
             >
                 NO
             </button>
+            <button
+                  onClick={() => onUpdate(prompt.id, { condition: 'uncertain' })}
+                  className={`text-xs px-2 py-0.5 rounded transition-colors ${prompt.condition === 'uncertain' ? 'bg-yellow-600 text-white font-bold' : 'bg-brand-primary text-text-secondary'}`}
+                  title="The parent's answer was a refusal, a hedge or had no clear yes or no"
+            >
+                UNSURE
+            </button>
+            {prompt.condition !== 'uncertain' && (
+              <>
+                <span className="text-xs text-text-tertiary" title="Needs a server that reports token probabilities; otherwise the answer alone decides.">with P &gt;</span>
+                <input
+                    type="number"
+                    min="0"
+                    max="99"
+                    step="5"
+                    value={prompt.probabilityThreshold !== undefined ? Math.round(prompt.probabilityThreshold * 100) : ''}
+                    onChange={(e) => onUpdate(prompt.id, { probabilityThreshold: e.target.value === '' ? undefined : Math.min(99, Math.max(0, parseFloat(e.target.value))) / 100 })}
+                    className="w-14 bg-brand-primary text-text-secondary text-xs rounded-md p-1 focus:ring-2 focus:ring-brand-accent focus:outline-none"
+                    placeholder="any"
+                />
+                <span className="text-xs text-text-tertiary">%</span>
+              </>
+            )}
         </div>
       )}
       {isChild && parentPrompt?.type === ResultType.Score && (
@@ -85,6 +163,32 @@ const PromptCard: React.FC<PromptCardProps> = ({ prompt, allPrompts, results, on
               />
           </div>
       )}
+      {isChild && parentPrompt?.type === ResultType.MultiCategory && (
+          <div className="flex items-center flex-wrap gap-2">
+              <span className="text-xs font-semibold text-text-tertiary">Run when answer contains:</span>
+              <select
+                  value={prompt.categoryConditionOperator || 'any'}
+                  onChange={(e) => onUpdate(prompt.id, { categoryConditionOperator: e.target.value as 'any' | 'all' })}
+                  className="bg-brand-primary text-text-secondary text-xs rounded-md p-1 focus:ring-2 focus:ring-brand-accent focus:outline-none"
+              >
+                  <option value="any">Any of</option>
+                  <option value="all">All of</option>
+              </select>
+              {(parentPrompt.categories || []).map(category => {
+                  const selected = (prompt.categoryConditionValues || []).includes(category);
+                  return (
+                      <button
+                          key={category}
+                          onClick={() => onUpdate(prompt.id, { categoryConditionValues: selected ? (prompt.categoryConditionValues || []).filter(c => c !== category) : [...(prompt.categoryConditionValues || []), category] })}
+                          className={`text-xs px-2 py-0.5 rounded transition-colors ${selected ? 'bg-brand-accent text-white font-bold' : 'bg-brand-primary text-text-secondary'}`}
+                      >
+                          {category}
+                      </button>
+                  );
+              })}
+              {(parentPrompt.categories || []).length === 0 && <span className="text-xs text-text-tertiary">The parent has no categories yet.</span>}
+          </div>
+      )}
       <div className="flex gap-2">
         {!isChild && (
             <div className="text-text-tertiary pt-2 cursor-grab">
@@ -98,6 +202,7 @@ const PromptCard: React.FC<PromptCardProps> = ({ prompt, allPrompts, results, on
             placeholder="Enter your analysis prompt..."
         />
       </div>
+      {hasPlaceholders(prompt.text) && <TemplatePreview prompt={prompt} allPrompts={allPrompts} />}
       {prompt.type === ResultType.Score && (
           <div className="flex items-center gap-2">
               <label className="text-xs text-text-tertiary">Range:</label>
@@ -129,6 +234,32 @@ const PromptCard: React.FC<PromptCardProps> = ({ prompt, allPrompts, results, on
               )}
           </div>
       )}
+      {supportsExtraImages(prompt, parentPrompt) && (
+          <div className="flex items-center gap-2 flex-wrap">
+              <span className="text-xs font-semibold text-text-tertiary">Also send:</span>
+              {extraImages.map((input, index) => (
+                <div key={index} className="flex items-center gap-2 text-xs bg-brand-primary px-2 py-1 rounded-md text-text-secondary">
+                    <span>Image {index + 2}: {input.kind === 'reference' ? input.imageName : `${input.kind} image`}</span>
+                    <button onClick={() => removeExtraImage(index)} className="text-text-tertiary hover:text-red-500"><XCircleIcon className="h-4 w-4" /></button>
+                </div>
+              ))}
+              <select
+                  value=""
+                  onChange={(e) => addExtraImage(e.target.value)}
+                  className="bg-brand-primary text-text-secondary text-xs rounded-md p-1 focus:ring-2 focus:ring-brand-accent focus:outline-none"
+                  title="Send more images after the analyzed one, e.g. to compare before and after"
+              >
+                  <option value="">{extraImages.length === 0 ? 'Only this image' : 'Add image...'}</option>
+                  <option value="previous" disabled={hasInput('previous')}>Previous image in the gallery</option>
+                  <option value="next" disabled={hasInput('next')}>Next image in the gallery</option>
+                  {referenceNames.length > 0 && (
+                    <optgroup label="Reference image">
+                      {referenceNames.map(name => <option key={name} value={`reference:${name}`}>{name}</option>)}
+                    </optgroup>
+                  )}
+              </select>
+          </div>
+      )}
       <div className="flex items-center justify-between">
         <select
           value={prompt.type}
@@ -141,16 +272,41 @@ const PromptCard: React.FC<PromptCardProps> = ({ prompt, allPrompts, results, on
           <option value={ResultType.Number}>Number</option>
           <option value={ResultType.YesNo}>Yes/No</option>
           <option value={ResultType.Category}>Category</option>
+          <option value={ResultType.MultiCategory}>Multi-Category</option>
           <option value={ResultType.JSON}>JSON</option>
+          {/* Children of detection prompts answer per object, not with outlines of their own. */}
+          {!isObjectParent(parentPrompt ?? undefined) && <option value={ResultType.Polygon}>Polygon</option>}
+          {!isObjectParent(parentPrompt ?? undefined) && <option value={ResultType.Points}>Points</option>}
         </select>
         <div className="flex items-center gap-1">
+          <select
+            value=""
+            onChange={(e) => insertPlaceholder(e.target.value)}
+            className="w-8 bg-transparent text-text-tertiary hover:text-brand-accent text-xs font-mono p-1 focus:outline-none cursor-pointer"
+            title="Insert a variable"
+          >
+            <option value="">{'{}'}</option>
+            <optgroup label="Image and context">
+              {BUILT_IN_VARIABLES.map(name => <option key={name} value={name}>{name}</option>)}
+            </optgroup>
+            {templateVariables.some(v => v.name) && (
+              <optgroup label="Prompt set variables">
+                {templateVariables.filter(v => v.name).map(v => <option key={v.name} value={v.name}>{v.name}</option>)}
+              </optgroup>
+            )}
+            {otherPrompts.length > 0 && (
+              <optgroup label="Answer of another prompt">
+                {otherPrompts.map(p => <option key={p.id} value={`result:${p.id}`}>{p.text.length > 50 ? `${p.text.substring(0, 50)}...` : p.text || p.id}</option>)}
+              </optgroup>
+            )}
+          </select>
           {prompt.type === ResultType.Text && (
             <>
               <button onClick={() => onStartRegionSelection(prompt.id, 'point')} className="p-1.5 text-text-tertiary hover:text-brand-accent transition-colors" title="Select Point"><MapPinIcon/></button>
               <button onClick={() => onStartRegionSelection(prompt.id, 'bbox')} className="p-1.5 text-text-tertiary hover:text-brand-accent transition-colors" title="Select Bounding Box"><ViewfinderCircleIcon/></button>
             </>
           )}
-          {(prompt.type === ResultType.YesNo || prompt.type === ResultType.BoundingBox || prompt.type === ResultType.Score) && !isChild && (
+          {(prompt.type === ResultType.YesNo || isObjectParent(prompt) || prompt.type === ResultType.Score || prompt.type === ResultType.MultiCategory) && !isChild && (
             <button
                 onClick={() => onAddChild(prompt.id)}
                 className="p-1.5 text-text-tertiary hover:text-brand-accent transition-colors"
@@ -159,16 +315,21 @@ const PromptCard: React.FC<PromptCardProps> = ({ prompt, allPrompts, results, on
                 <SitemapIcon />
             </button>
           )}
-          {(prompt.type === ResultType.Category || prompt.type === ResultType.JSON) && (
-             <button
-                onClick={() => onOpenSettings(prompt)}
-                className="relative p-1.5 text-text-tertiary hover:text-brand-accent transition-colors"
-                title="Configure prompt"
-            >
-                <CogIcon />
-                {needsConfiguration && <div className="absolute top-1 right-1 h-2 w-2 bg-red-500 rounded-full border border-brand-secondary"></div>}
-            </button>
-          )}
+          <button
+            onClick={() => onOpenSettings(prompt)}
+            className={`relative p-1.5 hover:text-brand-accent transition-colors ${prompt.fullResolution || profileOverride || (prompt.samples && prompt.samples > 1) || prompt.systemPrompt || prompt.examples?.length ? 'text-brand-accent' : 'text-text-tertiary'}`}
+            title={[
+                "Configure prompt",
+                prompt.fullResolution && "sends full-resolution image",
+                profileOverride && `uses profile "${profileOverride.name}"`,
+                prompt.samples && prompt.samples > 1 && `${prompt.samples} samples`,
+                prompt.systemPrompt && "has a system prompt",
+                prompt.examples?.length && `${prompt.examples.length} example${prompt.examples.length === 1 ? '' : 's'}`,
+            ].filter(Boolean).join(', ')}
+          >
+            <CogIcon />
+            {needsConfiguration && <div className="absolute top-1 right-1 h-2 w-2 bg-red-500 rounded-full border border-brand-secondary"></div>}
+          </button>
           <button
             onClick={() => onRun(prompt)}
             disabled={isAnalyzing || !imageLoaded || isChild || isPromptRunning || needsConfiguration}
@@ -289,6 +450,8 @@ interface PromptEditorProps {
   results: Record<string, AnalysisResult[]>;
   runningSinglePrompts: Set<string>;
   hasMultipleImages: boolean;
+  bypassCache: boolean;
+  onBypassCacheChange: (bypass: boolean) => void;
 }
 
 const PromptEditor: React.FC<PromptEditorProps> = ({ 
@@ -309,6 +472,8 @@ const PromptEditor: React.FC<PromptEditorProps> = ({
     results,
     runningSinglePrompts,
     hasMultipleImages,
+    bypassCache,
+    onBypassCacheChange,
 }) => {
   const [isManageModalOpen, setIsManageModalOpen] = useState(false);
   const [draggingId, setDraggingId] = useState<string | null>(null);
@@ -397,6 +562,15 @@ const PromptEditor: React.FC<PromptEditorProps> = ({
                     Analyze All Images
                 </button>
             )}
+            <label className="flex items-center gap-2 text-xs text-text-secondary cursor-pointer select-none" title="Always query the model, even when a cached answer exists. Fresh answers still update the cache.">
+                <input
+                    type="checkbox"
+                    checked={bypassCache}
+                    onChange={(e) => onBypassCacheChange(e.target.checked)}
+                    className="h-4 w-4 rounded border-brand-tertiary text-brand-accent focus:ring-brand-accent bg-brand-primary"
+                />
+                Bypass response cache
+            </label>
         </div>
       </div>
       {isManageModalOpen && (
@@ -410,6 +584,7 @@ const PromptEditor: React.FC<PromptEditorProps> = ({
       {editingPrompt && (
         <PromptSettingsModal
             prompt={editingPrompt}
+            parentPrompt={prompts.find(p => p.id === editingPrompt.parentId)}
             onClose={() => setEditingPrompt(null)}
             onSave={(id, update) => {
                 onUpdatePrompt(id, update);
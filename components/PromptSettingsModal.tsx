@@ -1,143 +1,497 @@
-import React, { useState, useEffect } from 'react';
-import { type Prompt, ResultType } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { type Prompt, ResultType, type CropOptions, type TilingOptions, type FewShotExample } from '../types';
+import { DEFAULT_CROP_OPTIONS, EXAMPLE_IMAGE_PREPROCESSING, preprocessImage } from '../services/preprocess';
+import { DEFAULT_TILING } from '../services/tiling';
+import { SAMPLED_TYPES, MAX_SAMPLES } from '../services/sampling';
+import { checkSchema } from '../services/jsonSchema';
+import { isObjectParent } from '../services/polygons';
 import { XIcon, SaveIcon, CogIcon, TrashIcon, PlusIcon } from './icons';
+import { useAppStore } from '../store';
 
 interface PromptSettingsModalProps {
   prompt: Prompt;
+  parentPrompt?: Prompt;
   onClose: () => void;
   onSave: (id: string, update: Partial<Prompt>) => void;
 }
 
-const CategoryEditor: React.FC<{ prompt: Prompt, onSave: (update: Partial<Prompt>) => void }> = ({ prompt, onSave }) => {
-    const [categories, setCategories] = useState<string[]>(prompt.categories || []);
+const CategoryEditor: React.FC<{ prompt: Prompt, onChange: (update: Partial<Prompt>) => void }> = ({ prompt, onChange }) => {
+    const categories = prompt.categories || [];
     const [newCategory, setNewCategory] = useState('');
 
     const handleAdd = () => {
         if (newCategory.trim() && !categories.includes(newCategory.trim())) {
-            setCategories([...categories, newCategory.trim()]);
+            onChange({ categories: [...categories, newCategory.trim()] });
             setNewCategory('');
         }
     };
 
     const handleRemove = (catToRemove: string) => {
-        setCategories(categories.filter(c => c !== catToRemove));
+        const { [catToRemove]: _removed, ...categorySynonyms } = prompt.categorySynonyms || {};
+        onChange({ categories: categories.filter(c => c !== catToRemove), categorySynonyms });
     };
 
-    const handleSave = () => {
-        onSave({ categories });
+    const handleSynonymsChange = (category: string, text: string) => {
+        onChange({ categorySynonyms: { ...prompt.categorySynonyms, [category]: text.split(',').map(s => s.trimStart()) } });
     };
 
     return (
         <>
-            <main className="p-6 space-y-4">
-                <div>
-                    <label className="block text-sm font-medium text-text-secondary mb-1">
-                        Response Categories
-                    </label>
-                    <div className="flex items-center gap-2">
-                        <input
-                            type="text"
-                            value={newCategory}
-                            onChange={(e) => setNewCategory(e.target.value)}
-                            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
-                            placeholder="Add a category..."
-                            className="flex-grow bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
-                        />
-                         <button
-                            onClick={handleAdd}
-                            className="flex-shrink-0 flex items-center justify-center gap-2 bg-brand-tertiary hover:bg-opacity-80 text-text-secondary font-semibold py-2 px-3 rounded-md transition-colors"
-                        >
-                            <PlusIcon /> Add
-                        </button>
-                    </div>
-                </div>
-                <div className="space-y-2 max-h-60 overflow-y-auto pr-2">
-                    {categories.length > 0 ? (
-                        categories.map(cat => (
-                            <div key={cat} className="bg-brand-primary p-2 rounded-md flex items-center justify-between text-sm">
-                                <span className="text-text-secondary">{cat}</span>
-                                <button onClick={() => handleRemove(cat)} className="text-text-tertiary hover:text-red-500"><TrashIcon /></button>
-                            </div>
-                        ))
-                    ) : (
-                        <p className="text-sm text-text-tertiary text-center py-4">No categories defined.</p>
-                    )}
+            <div>
+                <label className="block text-sm font-medium text-text-secondary mb-1">
+                    Response Categories
+                </label>
+                <div className="flex items-center gap-2">
+                    <input
+                        type="text"
+                        value={newCategory}
+                        onChange={(e) => setNewCategory(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                        placeholder="Add a category..."
+                        className="flex-grow bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
+                    />
+                     <button
+                        onClick={handleAdd}
+                        className="flex-shrink-0 flex items-center justify-center gap-2 bg-brand-tertiary hover:bg-opacity-80 text-text-secondary font-semibold py-2 px-3 rounded-md transition-colors"
+                    >
+                        <PlusIcon /> Add
+                    </button>
                 </div>
-            </main>
-            <footer className="p-4 bg-brand-tertiary rounded-b-lg flex justify-end">
-                <button
-                    onClick={handleSave}
-                    className="flex items-center gap-2 bg-brand-accent hover:bg-brand-accent-hover text-white font-semibold py-2 px-4 rounded-md transition-colors"
+            </div>
+            <div className="space-y-2 max-h-60 overflow-y-auto pr-2">
+                {categories.length > 0 ? (
+                    categories.map(cat => (
+                        <div key={cat} className="bg-brand-primary p-2 rounded-md flex items-center justify-between gap-3 text-sm">
+                            <span className="text-text-secondary flex-shrink-0">{cat}</span>
+                            <input
+                                type="text"
+                                value={(prompt.categorySynonyms?.[cat] || []).join(',')}
+                                onChange={(e) => handleSynonymsChange(cat, e.target.value)}
+                                placeholder="Synonyms, comma separated"
+                                className="flex-grow min-w-0 bg-brand-secondary p-1 rounded-md text-xs text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
+                            />
+                            <button onClick={() => handleRemove(cat)} className="text-text-tertiary hover:text-red-500"><TrashIcon /></button>
+                        </div>
+                    ))
+                ) : (
+                    <p className="text-sm text-text-tertiary text-center py-4">No categories defined.</p>
+                )}
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-text-secondary mb-1">
+                    When the answer matches no category
+                </label>
+                <select
+                    value={prompt.invalidCategoryPolicy || ''}
+                    onChange={(e) => onChange({ invalidCategoryPolicy: (e.target.value || undefined) as Prompt['invalidCategoryPolicy'] })}
+                    className="w-full bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
                 >
-                    <SaveIcon /> Save
-                </button>
-            </footer>
+                    <option value="">Follow the retry settings</option>
+                    <option value="reask">Ask again</option>
+                    <option value="mark">Keep the answer and mark it invalid</option>
+                </select>
+                <p className="text-xs text-text-tertiary mt-1">
+                    Answers are matched ignoring case and punctuation, then by synonym, by a category named within the answer (unless negated, as in "not warm"), and by a close spelling. Answers asked again count against the retry policy's attempts; the last one is kept as invalid if it still doesn't match.
+                </p>
+            </div>
         </>
     );
 };
 
-const JsonEditor: React.FC<{ prompt: Prompt, onSave: (update: Partial<Prompt>) => void }> = ({ prompt, onSave }) => {
-    const [schema, setSchema] = useState(prompt.jsonSchema || '');
+const SelectionLimitsEditor: React.FC<{ prompt: Prompt, onChange: (update: Partial<Prompt>) => void }> = ({ prompt, onChange }) => {
+    const inputClass = "w-full bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none";
+    const toLimit = (value: string) => value === '' ? undefined : Math.max(0, Math.round(Number(value) || 0));
+    const limitsConflict = prompt.minSelections !== undefined && prompt.maxSelections !== undefined && prompt.minSelections > prompt.maxSelections;
+
+    return (
+        <div>
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label htmlFor="min-selections" className="block text-xs font-medium text-text-secondary mb-1">Min selections</label>
+                    <input id="min-selections" type="number" min="0" value={prompt.minSelections ?? ''} placeholder="none"
+                        onChange={(e) => onChange({ minSelections: toLimit(e.target.value) })} className={inputClass} />
+                </div>
+                <div>
+                    <label htmlFor="max-selections" className="block text-xs font-medium text-text-secondary mb-1">Max selections</label>
+                    <input id="max-selections" type="number" min="1" value={prompt.maxSelections ?? ''} placeholder="none"
+                        onChange={(e) => onChange({ maxSelections: toLimit(e.target.value) })} className={inputClass} />
+                </div>
+            </div>
+            {limitsConflict && <p className="text-xs text-red-400 mt-1">The minimum is above the maximum, so no answer can be valid.</p>}
+            <p className="text-xs text-text-tertiary mt-1">
+                Every category that applies is selected. Answers with a category outside the list or too few or too many selections follow the setting above.
+            </p>
+        </div>
+    );
+};
+
+const JsonEditor: React.FC<{ prompt: Prompt, onChange: (update: Partial<Prompt>) => void, onValidityChange: (error: string | null) => void }> = ({ prompt, onChange, onValidityChange }) => {
+    const schema = prompt.jsonSchema || '';
     const [error, setError] = useState<string | null>(null);
 
     const handleSchemaChange = (text: string) => {
-        setSchema(text);
+        onChange({ jsonSchema: text });
+        let nextError: string | null = null;
         try {
-            JSON.parse(text);
-            setError(null);
+            nextError = checkSchema(JSON.parse(text));
         } catch (e) {
-            setError("Invalid JSON format.");
+            nextError = "Invalid JSON format.";
         }
+        setError(nextError);
+        onValidityChange(nextError);
     };
 
-    const handleSave = () => {
-        if (!error) {
-            onSave({ jsonSchema: schema });
+    return (
+        <div>
+            <label htmlFor="json-schema" className="block text-sm font-medium text-text-secondary mb-1">
+                JSON Schema
+            </label>
+            <textarea
+                id="json-schema"
+                value={schema}
+                onChange={(e) => handleSchemaChange(e.target.value)}
+                placeholder={'{\n  "type": "object",\n  "properties": {\n    "name": {"type": "string"},\n    "age": {"type": "number"}\n  }\n}'}
+                className={`w-full h-64 bg-brand-primary p-2 rounded-md text-sm text-text-primary font-mono focus:ring-2 focus:ring-brand-accent focus:outline-none resize-y ${error ? 'ring-2 ring-red-500' : ''}`}
+            />
+             {error && <p className="text-red-500 text-xs mt-1">{error}</p>}
+            <label htmlFor="schema-violations" className="block text-sm font-medium text-text-secondary mt-4 mb-1">
+                When an answer breaks the schema
+            </label>
+            <select
+                id="schema-violations"
+                value={prompt.schemaViolationPolicy || 'warn'}
+                onChange={(e) => onChange({ schemaViolationPolicy: e.target.value as Prompt['schemaViolationPolicy'] })}
+                className="w-full bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
+            >
+                <option value="warn">Keep it and show the violations as warnings</option>
+                <option value="retry">Treat it as an error and ask again</option>
+            </select>
+            <p className="text-xs text-text-tertiary mt-1">
+                Answers are checked locally for types, required properties, enums, minimum/maximum, lengths, patterns and nested objects and arrays. Retries count against the retry policy's attempts and only happen when it re-asks unparseable answers; otherwise the answer fails right away.
+            </p>
+        </div>
+    );
+};
+
+const SamplingEditor: React.FC<{ prompt: Prompt, onChange: (update: Partial<Prompt>) => void }> = ({ prompt, onChange }) => (
+    <div>
+        <label htmlFor="prompt-samples" className="block text-sm font-medium text-text-secondary mb-1">
+            Samples
+        </label>
+        <input
+            id="prompt-samples"
+            type="number"
+            min="1"
+            max={MAX_SAMPLES}
+            value={prompt.samples ?? 1}
+            onChange={(e) => {
+                const samples = parseInt(e.target.value, 10);
+                onChange({ samples: isNaN(samples) || samples <= 1 ? undefined : Math.min(MAX_SAMPLES, samples) });
+            }}
+            className="w-24 bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
+        />
+        <p className="text-xs text-text-tertiary mt-1">
+            Asks the model this many times and combines the answers: majority vote for Yes/No and Category, the median for numbers, and boxes found by at least half of the samples. The spread is shown as a confidence on the result. Needs a non-zero temperature to be useful.
+        </p>
+    </div>
+);
+
+const ProfileEditor: React.FC<{ prompt: Prompt, onChange: (update: Partial<Prompt>) => void }> = ({ prompt, onChange }) => {
+    const { profiles, defaultProfileId } = useAppStore();
+    const defaultProfile = profiles.find(p => p.id === defaultProfileId);
+
+    return (
+        <div>
+            <label htmlFor="prompt-profile" className="block text-sm font-medium text-text-secondary mb-1">
+                Model Profile
+            </label>
+            <select
+                id="prompt-profile"
+                value={prompt.profileId ?? ''}
+                onChange={(e) => onChange({ profileId: e.target.value || undefined })}
+                className="w-full bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
+            >
+                <option value="">Default{defaultProfile ? ` (${defaultProfile.name})` : ''}</option>
+                {profiles.map(p => <option key={p.id} value={p.id}>{p.name} · {p.modelName}</option>)}
+            </select>
+            <p className="text-xs text-text-tertiary mt-1">
+                Runs this prompt on a different model, e.g. a detection model for boxes. Profiles are managed in the API settings.
+            </p>
+        </div>
+    );
+};
+
+const SystemPromptEditor: React.FC<{ prompt: Prompt, onChange: (update: Partial<Prompt>) => void }> = ({ prompt, onChange }) => (
+    <div>
+        <label htmlFor="prompt-system" className="block text-sm font-medium text-text-secondary mb-1">
+            System Prompt
+        </label>
+        <textarea
+            id="prompt-system"
+            value={prompt.systemPrompt || ''}
+            onChange={(e) => onChange({ systemPrompt: e.target.value || undefined })}
+            placeholder="e.g. A 'damaged' item has visible cracks or dents; scratches alone do not count."
+            className="w-full h-24 bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none resize-y"
+        />
+        <p className="text-xs text-text-tertiary mt-1">
+            Sent as a system message, after the prompt set's system prompt (under Manage Prompts).
+        </p>
+    </div>
+);
+
+const ANSWER_PLACEHOLDERS: Partial<Record<ResultType, string>> = {
+    [ResultType.YesNo]: 'Yes',
+    [ResultType.Score]: '7',
+    [ResultType.Number]: '3',
+    [ResultType.BoundingBox]: '[{"box": [120, 80, 560, 900], "label": "person"}]',
+    [ResultType.Polygon]: '[{"points": [[120, 80], [560, 100], [500, 900], [140, 860]], "label": "leaf"}]',
+    [ResultType.Points]: '[{"point": [340, 520], "label": "person"}]',
+    [ResultType.MultiCategory]: '["outdoor", "night"]',
+    [ResultType.JSON]: '{"name": "..."}',
+};
+
+const ExamplesEditor: React.FC<{ prompt: Prompt, onChange: (update: Partial<Prompt>) => void }> = ({ prompt, onChange }) => {
+    const { images, selectedImageId } = useAppStore();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [isAdding, setIsAdding] = useState(false);
+    const examples = prompt.examples || [];
+    const selectedImage = images.find(image => image.id === selectedImageId);
+    const placeholder = prompt.type === ResultType.Category
+        ? prompt.categories?.[0] || 'A category'
+        : ANSWER_PLACEHOLDERS[prompt.type] || 'The answer, exactly as the model should give it';
+
+    const setExamples = (next: FewShotExample[]) => onChange({ examples: next.length > 0 ? next : undefined });
+
+    const addImages = async (files: File[]) => {
+        if (files.length === 0) return;
+        setIsAdding(true);
+        try {
+            const added = await Promise.all(files.map(async file => ({
+                id: crypto.randomUUID(),
+                image: (await preprocessImage(file, EXAMPLE_IMAGE_PREPROCESSING)).dataUrl,
+                answer: '',
+            })));
+            setExamples([...examples, ...added]);
+        } finally {
+            setIsAdding(false);
+            if (fileInputRef.current) fileInputRef.current.value = '';
         }
     };
 
+    const updateExample = (id: string, answer: string) => setExamples(examples.map(e => e.id === id ? { ...e, answer } : e));
+
     return (
-        <>
-            <main className="p-6 space-y-4">
-                <div>
-                    <label htmlFor="json-schema" className="block text-sm font-medium text-text-secondary mb-1">
-                        JSON Schema
-                    </label>
+        <div className="space-y-2">
+            <span className="block text-sm font-medium text-text-secondary">Few-Shot Examples</span>
+            {examples.map((example, index) => (
+                <div key={example.id} className="bg-brand-primary p-2 rounded-md flex items-start gap-3">
+                    <img src={example.image} alt={`Example ${index + 1}`} className="h-16 w-16 object-cover rounded-md flex-shrink-0" />
                     <textarea
-                        id="json-schema"
-                        value={schema}
-                        onChange={(e) => handleSchemaChange(e.target.value)}
-                        placeholder={'{\n  "type": "object",\n  "properties": {\n    "name": {"type": "string"},\n    "age": {"type": "number"}\n  }\n}'}
-                        className={`w-full h-64 bg-brand-primary p-2 rounded-md text-sm text-text-primary font-mono focus:ring-2 focus:ring-brand-accent focus:outline-none resize-y ${error ? 'ring-2 ring-red-500' : ''}`}
+                        value={example.answer}
+                        onChange={(e) => updateExample(example.id, e.target.value)}
+                        placeholder={placeholder}
+                        className={`flex-grow h-16 bg-brand-secondary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none resize-y ${example.answer.trim() ? '' : 'ring-1 ring-yellow-500'}`}
                     />
-                     {error && <p className="text-red-500 text-xs mt-1">{error}</p>}
+                    <button onClick={() => setExamples(examples.filter(e => e.id !== example.id))} className="text-text-tertiary hover:text-red-500 pt-1"><TrashIcon /></button>
                 </div>
-            </main>
-            <footer className="p-4 bg-brand-tertiary rounded-b-lg flex justify-end">
+            ))}
+            <div className="flex items-center gap-2">
+                <input type="file" ref={fileInputRef} accept="image/*" multiple className="hidden" onChange={(e) => addImages(Array.from(e.target.files || []))} />
                 <button
-                    onClick={handleSave}
-                    disabled={!!error || !schema.trim()}
-                    className="flex items-center gap-2 bg-brand-accent hover:bg-brand-accent-hover text-white font-semibold py-2 px-4 rounded-md transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isAdding}
+                    className="flex items-center gap-2 bg-brand-tertiary hover:bg-opacity-80 text-text-secondary font-semibold py-1.5 px-3 rounded-md transition-colors text-sm disabled:opacity-50"
                 >
-                    <SaveIcon /> Save
+                    <PlusIcon /> Add Example Images
                 </button>
-            </footer>
-        </>
+                {selectedImage && (
+                    <button
+                        onClick={() => addImages([selectedImage.file])}
+                        disabled={isAdding}
+                        className="text-sm font-semibold text-brand-accent hover:underline disabled:opacity-50"
+                    >
+                        Use the selected image
+                    </button>
+                )}
+            </div>
+            <p className="text-xs text-text-tertiary">
+                Each example is sent before the real question as the same question about the example image, followed by the answer you give here. Examples without an answer are skipped. Images are stored downscaled with the prompt and with saved prompt sets.
+            </p>
+        </div>
+    );
+};
+
+const ImageInputEditor: React.FC<{ prompt: Prompt, onChange: (update: Partial<Prompt>) => void }> = ({ prompt, onChange }) => (
+    <div>
+        <label className="flex items-center gap-2 text-sm font-medium text-text-secondary cursor-pointer">
+            <input
+                type="checkbox"
+                checked={!!prompt.fullResolution}
+                onChange={(e) => onChange({ fullResolution: e.target.checked || undefined })}
+                className="h-4 w-4 rounded border-brand-tertiary text-brand-accent focus:ring-brand-accent bg-brand-primary"
+            />
+            Send the image at full resolution
+        </label>
+        <p className="text-xs text-text-tertiary mt-1 pl-6">
+            Skips the global resize for this prompt, e.g. for reading small text. The image is still re-encoded and rotated upright.
+        </p>
+    </div>
+);
+
+const CropEditor: React.FC<{ prompt: Prompt, onChange: (update: Partial<Prompt>) => void }> = ({ prompt, onChange }) => {
+    const crop = prompt.crop || DEFAULT_CROP_OPTIONS;
+    const update = (change: Partial<CropOptions>) => onChange({ crop: { ...crop, ...change } });
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <label htmlFor="crop-mode" className="block text-sm font-medium text-text-secondary mb-1">
+                    Per-Object Input
+                </label>
+                <select
+                    id="crop-mode"
+                    value={crop.mode}
+                    onChange={(e) => update({ mode: e.target.value as CropOptions['mode'] })}
+                    className="w-full bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
+                >
+                    <option value="crop">Crop of the object only</option>
+                    <option value="crop_and_full">Full image followed by the crop</option>
+                </select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="crop-padding" className="block text-sm font-medium text-text-secondary mb-1">
+                        Padding (%)
+                    </label>
+                    <input
+                        id="crop-padding"
+                        type="number"
+                        min="0"
+                        step="5"
+                        value={Math.round(crop.padding * 100)}
+                        onChange={(e) => update({ padding: Math.max(0, Number(e.target.value) || 0) / 100 })}
+                        className="w-full bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
+                    />
+                </div>
+                <div>
+                    <label htmlFor="crop-min-size" className="block text-sm font-medium text-text-secondary mb-1">
+                        Min Crop Size (px)
+                    </label>
+                    <input
+                        id="crop-min-size"
+                        type="number"
+                        min="0"
+                        step="32"
+                        value={crop.minSize}
+                        onChange={(e) => update({ minSize: Math.max(0, Number(e.target.value) || 0) })}
+                        className="w-full bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
+                    />
+                </div>
+            </div>
+            <p className="text-xs text-text-tertiary">
+                Each detected object is cut out with the given padding around its box. Crops whose short edge is below the minimum size are upscaled to it.
+            </p>
+        </div>
     );
 };
 
+const TilingEditor: React.FC<{ prompt: Prompt, onChange: (update: Partial<Prompt>) => void }> = ({ prompt, onChange }) => {
+    const tiling = prompt.tiling || DEFAULT_TILING;
+    const update = (change: Partial<TilingOptions>) => onChange({ tiling: { ...tiling, ...change } });
+    const inputClass = "w-full bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none disabled:opacity-50";
 
-const PromptSettingsModal: React.FC<PromptSettingsModalProps> = ({ prompt, onClose, onSave }) => {
+    return (
+        <div className="space-y-3">
+            <div>
+                <label className="flex items-center gap-2 text-sm font-medium text-text-secondary cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={tiling.enabled}
+                        onChange={(e) => update({ enabled: e.target.checked })}
+                        className="h-4 w-4 rounded border-brand-tertiary text-brand-accent focus:ring-brand-accent bg-brand-primary"
+                    />
+                    Tiled detection
+                </label>
+                <p className="text-xs text-text-tertiary mt-1 pl-6">
+                    Splits the full-resolution image into overlapping tiles and runs the prompt once per tile, so small objects keep enough pixels. Duplicates in the overlaps are merged per label.
+                </p>
+            </div>
+            <div className="grid grid-cols-4 gap-3">
+                <div>
+                    <label htmlFor="tile-rows" className="block text-xs font-medium text-text-secondary mb-1">Rows</label>
+                    <input id="tile-rows" type="number" min="1" max="8" value={tiling.rows} disabled={!tiling.enabled}
+                        onChange={(e) => update({ rows: Math.max(1, Math.min(8, Number(e.target.value) || 1)) })} className={inputClass} />
+                </div>
+                <div>
+                    <label htmlFor="tile-cols" className="block text-xs font-medium text-text-secondary mb-1">Columns</label>
+                    <input id="tile-cols" type="number" min="1" max="8" value={tiling.cols} disabled={!tiling.enabled}
+                        onChange={(e) => update({ cols: Math.max(1, Math.min(8, Number(e.target.value) || 1)) })} className={inputClass} />
+                </div>
+                <div>
+                    <label htmlFor="tile-overlap" className="block text-xs font-medium text-text-secondary mb-1">Overlap (%)</label>
+                    <input id="tile-overlap" type="number" min="0" max="50" step="5" value={Math.round(tiling.overlap * 100)} disabled={!tiling.enabled}
+                        onChange={(e) => update({ overlap: Math.max(0, Math.min(50, Number(e.target.value) || 0)) / 100 })} className={inputClass} />
+                </div>
+                <div>
+                    <label htmlFor="tile-iou" className="block text-xs font-medium text-text-secondary mb-1">Merge IoU</label>
+                    <input id="tile-iou" type="number" min="0" max="1" step="0.05" value={tiling.iouThreshold} disabled={!tiling.enabled}
+                        onChange={(e) => update({ iouThreshold: Math.max(0, Math.min(1, Number(e.target.value) || 0)) })} className={inputClass} />
+                </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-text-secondary cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={!!tiling.showTiles}
+                    disabled={!tiling.enabled}
+                    onChange={(e) => update({ showTiles: e.target.checked })}
+                    className="h-4 w-4 rounded border-brand-tertiary text-brand-accent focus:ring-brand-accent bg-brand-primary"
+                />
+                Show the tile layout on the image
+            </label>
+        </div>
+    );
+};
+
+const PointsEditor: React.FC<{ prompt: Prompt, onChange: (update: Partial<Prompt>) => void }> = ({ prompt, onChange }) => (
+    <div>
+        <label className="flex items-center gap-2 text-sm font-medium text-text-secondary cursor-pointer">
+            <input
+                type="checkbox"
+                checked={!!prompt.groupPointsByLabel}
+                onChange={(e) => onChange({ groupPointsByLabel: e.target.checked })}
+                className="h-4 w-4 rounded border-brand-tertiary text-brand-accent focus:ring-brand-accent bg-brand-primary"
+            />
+            Group markers by label
+        </label>
+        <p className="text-xs text-text-tertiary mt-1 pl-6">
+            Colors the markers per label and numbers each label's points from 1, so every count can be checked on the image. Otherwise all points share one color and one numbering.
+        </p>
+    </div>
+);
+
+const PromptSettingsModal: React.FC<PromptSettingsModalProps> = ({ prompt, parentPrompt, onClose, onSave }) => {
   const getTitle = () => {
     switch (prompt.type) {
-        case ResultType.Category: return "Configure Categories";
+        case ResultType.Category:
+        case ResultType.MultiCategory: return "Configure Categories";
         case ResultType.JSON: return "Configure JSON Schema";
         default: return "Prompt Settings";
     }
   };
 
-  const handleSave = (update: Partial<Prompt>) => {
-      onSave(prompt.id, update);
+  const [draft, setDraft] = useState<Prompt>(prompt);
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(prompt);
+    setValidationError(null);
+  }, [prompt]);
+
+  const handleChange = (update: Partial<Prompt>) => setDraft(prev => ({ ...prev, ...update }));
+
+  const handleSave = () => {
+      const { id, ...update } = draft;
+      onSave(id, update);
       onClose();
   }
 
@@ -154,8 +508,28 @@ const PromptSettingsModal: React.FC<PromptSettingsModalProps> = ({ prompt, onClo
           </button>
         </header>
         
-        {prompt.type === ResultType.Category && <CategoryEditor prompt={prompt} onSave={handleSave} />}
-        {prompt.type === ResultType.JSON && <JsonEditor prompt={prompt} onSave={handleSave} />}
+        <main className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
+            {(prompt.type === ResultType.Category || prompt.type === ResultType.MultiCategory) && <CategoryEditor prompt={draft} onChange={handleChange} />}
+            {prompt.type === ResultType.MultiCategory && <SelectionLimitsEditor prompt={draft} onChange={handleChange} />}
+            {prompt.type === ResultType.JSON && <JsonEditor prompt={draft} onChange={handleChange} onValidityChange={setValidationError} />}
+            {prompt.type === ResultType.BoundingBox && <TilingEditor prompt={draft} onChange={handleChange} />}
+            {prompt.type === ResultType.Points && <PointsEditor prompt={draft} onChange={handleChange} />}
+            {isObjectParent(parentPrompt) && prompt.type !== ResultType.BoundingBox && <CropEditor prompt={draft} onChange={handleChange} />}
+            {SAMPLED_TYPES.includes(prompt.type) && !isObjectParent(parentPrompt) && <SamplingEditor prompt={draft} onChange={handleChange} />}
+            <SystemPromptEditor prompt={draft} onChange={handleChange} />
+            {!isObjectParent(parentPrompt) && <ExamplesEditor prompt={draft} onChange={handleChange} />}
+            <ImageInputEditor prompt={draft} onChange={handleChange} />
+            <ProfileEditor prompt={draft} onChange={handleChange} />
+        </main>
+        <footer className="p-4 bg-brand-tertiary rounded-b-lg flex justify-end">
+            <button
+                onClick={handleSave}
+                disabled={!!validationError || (prompt.type === ResultType.JSON && !draft.jsonSchema?.trim())}
+                className="flex items-center gap-2 bg-brand-accent hover:bg-brand-accent-hover text-white font-semibold py-2 px-4 rounded-md transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+            >
+                <SaveIcon /> Save
+            </button>
+        </footer>
 
       </div>
     </div>
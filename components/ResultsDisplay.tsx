@@ -1,8 +1,15 @@
 import React, { useState, useEffect } from 'react';
-import { type Prompt, type AnalysisResult, ResultType, type BoundingBox, type BboxChildResult } from '../types';
-import { EyeIcon, EyeOffIcon, ArrowsExpandIcon, CheckCircleIcon, XCircleIcon, ChevronDownIcon, SpinnerIcon, ClipboardIcon, ArrowLeftIcon, ArrowRightIcon } from './icons';
+import { type Prompt, type AnalysisResult, ResultType, type BoundingBox, type BboxChildResult, type AnalysisAttempt, type RequestMetrics, type ObjectCrop, type TileResult, type BoxFormatReport, type ProfileSnapshot, type SamplingSummary, type InputImageRef, type CategoryMatch, type SchemaViolation, type YesNoAnswer, type Polygon, type KeyPoint } from '../types';
+import { EyeIcon, EyeOffIcon, ArrowsExpandIcon, CheckCircleIcon, XCircleIcon, ChevronDownIcon, SpinnerIcon, ClipboardIcon, ArrowLeftIcon, ArrowRightIcon, ExclamationIcon } from './icons';
 import ExportButton from './ExportButton';
 import { useAppStore } from '../store';
+import { joinPointer } from '../services/jsonSchema';
+import { getSelectionError, isAllowedCategory } from '../services/categories';
+import { parseYesNo, getYesNoAnswer } from '../services/yesNo';
+import { formatArea, getLabelColor, isObjectParent, polygonArea, polygonBounds } from '../services/polygons';
+import { countPointsByLabel, numberPoints, pointBounds } from '../services/points';
+import { getResultMetrics, sumMetrics, collectImageMetrics, formatMetrics, formatTotals } from '../services/metrics';
+import { BOX_ORDER_LABELS, BOX_SCALE_LABELS } from '../services/coordinates';
 
 interface ResultsDisplayProps {
   prompts: Prompt[];
@@ -34,6 +41,27 @@ const SimpleMarkdownRenderer: React.FC<{ text: string }> = ({ text }) => {
   );
 };
 
+const ReasoningSection: React.FC<{ text: string, isStreaming?: boolean }> = ({ text, isStreaming }) => {
+  const [isOpen, setIsOpen] = React.useState(false);
+  return (
+    <div className="mb-2">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-xs font-semibold text-text-tertiary hover:text-text-primary flex items-center gap-1"
+      >
+        {isStreaming && <SpinnerIcon />}
+        {isStreaming ? 'Reasoning...' : 'Reasoning'}
+        <div className={`transition-transform ${isOpen ? 'rotate-180' : ''}`}>
+          <ChevronDownIcon />
+        </div>
+      </button>
+      {isOpen && (
+        <p className="mt-1 text-xs text-text-tertiary whitespace-pre-wrap max-h-48 overflow-y-auto border-l-2 border-brand-tertiary pl-2">{text}</p>
+      )}
+    </div>
+  );
+};
+
 const FollowUpConversation: React.FC<{
   prompt: Prompt;
   result: AnalysisResult;
@@ -78,6 +106,7 @@ const FollowUpConversation: React.FC<{
                     </div>
                     <div className="p-2 rounded-md bg-brand-tertiary/50">
                       <p className="font-semibold text-text-tertiary text-xs">AI Response</p>
+                       {turn.reasoning && <ReasoningSection text={turn.reasoning} isStreaming={turn.answer === ''} />}
                        {turn.answer === '' ? (
                          <div className="flex items-center gap-2 text-sm text-text-tertiary italic">
                              <SpinnerIcon />
@@ -143,10 +172,16 @@ const CollapsibleTextView: React.FC<{ text: string, onMaximize: () => void, hasC
 const BboxChildResultDisplay: React.FC<{
     prompt: Prompt;
     resultData: string | number | null;
-}> = ({ prompt, resultData }) => {
+    metrics?: RequestMetrics;
+    reasoning?: string;
+    crop?: ObjectCrop;
+    error?: string;
+    attempts?: AnalysisAttempt[];
+}> = ({ prompt, resultData, metrics, reasoning, crop, error, attempts }) => {
+    const { apiInspectorMode } = useAppStore();
     const renderMiniContent = () => {
-        if (typeof resultData === 'string' && resultData.startsWith('Error:')) {
-            return <p className="text-red-400 text-xs">{resultData}</p>;
+        if (error) {
+            return <p className="text-red-400 text-xs">Error: {error}</p>;
         }
         switch (prompt.type) {
             case ResultType.Text:
@@ -155,14 +190,7 @@ const BboxChildResultDisplay: React.FC<{
                 const num = parseFloat(resultData as any);
                 return <span className="text-xl font-bold text-brand-accent">{isNaN(num) ? 'N/A' : num}</span>;
             case ResultType.YesNo:
-                const answer = (resultData as string)?.toLowerCase().trim() || '';
-                const isYes = answer.includes('yes');
-                return (
-                    <div className="flex items-center gap-1">
-                        {isYes ? <CheckCircleIcon className="h-5 w-5 text-green-400" /> : <XCircleIcon className="h-5 w-5 text-red-400" />}
-                        <span className={`text-lg font-bold ${isYes ? 'text-green-400' : 'text-red-400'}`}>{isYes ? 'Yes' : 'No'}</span>
-                    </div>
-                );
+                return <YesNoBadge answer={parseYesNo(String(resultData ?? ''))} size="small" />;
             case ResultType.Score:
                 const scoreValue = parseFloat(resultData as any);
                 if (isNaN(scoreValue)) {
@@ -180,12 +208,317 @@ const BboxChildResultDisplay: React.FC<{
     };
     return (
         <div className="mt-2">
-            <p className="text-xs font-semibold text-text-tertiary truncate" title={prompt.text}>{prompt.text}</p>
-            {renderMiniContent()}
+            <p className="text-xs font-semibold text-text-tertiary truncate" title={metrics ? `${prompt.text}\n${formatMetrics(metrics)}` : prompt.text}>{prompt.text}</p>
+            <div className="flex items-start gap-2">
+                {apiInspectorMode && crop && (
+                    <img src={crop.dataUrl} alt="Crop sent to the model" title={`Crop sent to the model: [${crop.region.map(Math.round).join(', ')}]`} className="h-12 w-auto max-w-[6rem] object-contain rounded border border-brand-tertiary flex-shrink-0" />
+                )}
+                {renderMiniContent()}
+                {attempts && attempts.length > 1 && <AttemptsBadge attempts={attempts} />}
+            </div>
+            {reasoning && <ReasoningSection text={reasoning} />}
+        </div>
+    );
+};
+
+const AttemptsBadge: React.FC<{ attempts: AnalysisAttempt[] }> = ({ attempts }) => {
+    const details = attempts
+        .map((attempt, index) => `#${index + 1} ${attempt.outcome} (${(attempt.durationMs / 1000).toFixed(1)}s)${attempt.error ? `: ${attempt.error}` : ''}`)
+        .join('\n');
+    return (
+        <span className="text-xs font-mono text-amber-400 bg-brand-primary px-2 py-1 rounded-md select-none" title={details}>
+            {attempts.length} attempts
+        </span>
+    );
+};
+
+const TilesBadge: React.FC<{ tiles: TileResult[] }> = ({ tiles }) => {
+    const failed = tiles.filter(tile => tile.error).length;
+    const details = tiles
+        .map((tile, index) => `Tile ${index + 1}: ${tile.error ? tile.error : `${tile.boxes.length} box(es)`}`)
+        .join('\n');
+    return (
+        <span className={`text-xs font-mono bg-brand-primary px-2 py-1 rounded-md select-none ${failed > 0 ? 'text-yellow-400' : 'text-text-tertiary'}`} title={details}>
+            {tiles.length - failed}/{tiles.length} tiles
+        </span>
+    );
+};
+
+// Shows how self-consistency samples were spread: the vote split, the values on their scale, or box support.
+const SamplingDistribution: React.FC<{ sampling: SamplingSummary, prompt: Prompt }> = ({ sampling, prompt }) => {
+    const header = (
+        <div className="flex justify-between text-[11px] font-mono text-text-tertiary">
+            <span>{sampling.succeeded}/{sampling.samples} samples{sampling.succeeded < sampling.samples ? ` (${sampling.samples - sampling.succeeded} failed)` : ''}</span>
+            <span className={sampling.confidence >= 0.8 ? 'text-green-400' : sampling.confidence >= 0.5 ? 'text-yellow-400' : 'text-red-400'}>
+                {Math.round(sampling.confidence * 100)}% confidence
+            </span>
+        </div>
+    );
+
+    if (sampling.votes) {
+        const entries = (Object.entries(sampling.votes) as [string, number][]).sort((a, b) => b[1] - a[1]);
+        return (
+            <div className="mt-3 space-y-1">
+                {header}
+                <div className="flex h-2 rounded-full overflow-hidden bg-brand-primary">
+                    {entries.map(([answer, count], index) => (
+                        <div key={answer} className={index === 0 ? 'bg-brand-accent' : 'bg-text-tertiary opacity-50 border-l border-brand-secondary'} style={{ width: `${count / sampling.succeeded * 100}%` }} title={`${answer}: ${count}`} />
+                    ))}
+                </div>
+                <div className="flex flex-wrap gap-x-3 text-[11px] text-text-tertiary">
+                    {entries.map(([answer, count]) => <span key={answer}><span className="text-text-secondary">{answer}</span> {count}</span>)}
+                </div>
+            </div>
+        );
+    }
+
+    if (sampling.values) {
+        const [min, max] = prompt.type === ResultType.Score && prompt.scoreRange
+            ? prompt.scoreRange
+            : [Math.min(...sampling.values), Math.max(...sampling.values)];
+        const position = (value: number) => max > min ? (value - min) / (max - min) * 100 : 50;
+        const format = (value: number) => Number.isInteger(value) ? value.toString() : value.toFixed(2);
+        return (
+            <div className="mt-3 space-y-1">
+                {header}
+                <div className="relative h-3 rounded-full bg-brand-primary">
+                    {sampling.values.map((value, index) => (
+                        <div key={index} className="absolute top-0.5 h-2 w-2 -ml-1 rounded-full bg-brand-accent opacity-70" style={{ left: `${position(value)}%` }} title={format(value)} />
+                    ))}
+                </div>
+                <div className="flex justify-between text-[11px] font-mono text-text-tertiary">
+                    <span>{format(min)}</span>
+                    <span>mean {format(sampling.mean!)} · median {format(sampling.median!)} · σ {format(sampling.stdDev!)}</span>
+                    <span>{format(max)}</span>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="mt-3 space-y-1">
+            {header}
+            {sampling.boxSupport && sampling.boxSupport.length > 0 && (
+                <p className="text-[11px] text-text-tertiary">
+                    Found by {sampling.boxSupport.map(support => `${Math.round(support * 100)}%`).join(', ')} of samples; boxes seen by fewer than half were dropped.
+                </p>
+            )}
+        </div>
+    );
+};
+
+// Every image the model saw, in the order it received them.
+const InputImagesStrip: React.FC<{ inputImages: InputImageRef[] }> = ({ inputImages }) => {
+    const { images, selectedImageId, setSelectedImageId } = useAppStore();
+    const analyzed = images.find(image => image.id === selectedImageId);
+    const thumbnails = [
+        { key: 'analyzed', imageId: analyzed?.id, label: 'Image 1 · analyzed', name: analyzed?.file.name || '' },
+        ...inputImages.map((ref, index) => ({ key: `${ref.kind}-${index}`, imageId: ref.imageId, label: `Image ${index + 2} · ${ref.kind}`, name: ref.name })),
+    ];
+    return (
+        <div className="flex gap-2 mb-3 overflow-x-auto">
+            {thumbnails.map(thumbnail => {
+                const url = images.find(image => image.id === thumbnail.imageId)?.url;
+                return (
+                    <figure key={thumbnail.key} className="flex-shrink-0 w-24">
+                        {url ? (
+                            <button onClick={() => setSelectedImageId(thumbnail.imageId!)} title={`${thumbnail.name}\nClick to select this image`}>
+                                <img src={url} alt={thumbnail.name} className="h-16 w-24 object-cover rounded-md bg-brand-primary" />
+                            </button>
+                        ) : (
+                            <div className="h-16 w-24 rounded-md bg-brand-primary flex items-center justify-center text-[10px] text-text-tertiary">removed</div>
+                        )}
+                        <figcaption className="text-[10px] text-text-tertiary truncate mt-0.5" title={thumbnail.name}>{thumbnail.label}</figcaption>
+                    </figure>
+                );
+            })}
+        </div>
+    );
+};
+
+// The normalized Yes/No answer; refusals and hedges show as uncertain.
+const YesNoBadge: React.FC<{ answer: YesNoAnswer, size: 'small' | 'large' }> = ({ answer, size }) => {
+    const iconClass = size === 'large' ? 'h-8 w-8' : 'h-5 w-5';
+    const textClass = size === 'large' ? 'text-2xl' : 'text-lg';
+    if (answer === 'uncertain') {
+        return (
+            <div className="flex items-center gap-1" title="The answer was a refusal, a hedge or had no clear yes or no">
+                <ExclamationIcon className={`${iconClass} text-yellow-400`} />
+                <span className={`${textClass} font-bold text-yellow-400`}>Uncertain</span>
+            </div>
+        );
+    }
+    const isYes = answer === 'yes';
+    return (
+        <div className="flex items-center gap-1">
+            {isYes ? <CheckCircleIcon className={`${iconClass} text-green-400`} /> : <XCircleIcon className={`${iconClass} text-red-400`} />}
+            <span className={`${textClass} font-bold ${isYes ? 'text-green-400' : 'text-red-400'}`}>{isYes ? 'Yes' : 'No'}</span>
+        </div>
+    );
+};
+
+// The answers of a detection prompt's children for one of its objects, matched by the object's box.
+const ObjectChildResults: React.FC<{ box: BoundingBox, childrenPrompts: Prompt[], results: Record<string, AnalysisResult[]> }> = ({ box, childrenPrompts, results }) => (
+    <div className="pl-5 mt-2 space-y-2">
+        {childrenPrompts.map(childPrompt => {
+            const childResultHistory = results[childPrompt.id];
+            if (!childResultHistory || childResultHistory.length === 0) return null;
+            const childResult = childResultHistory[childResultHistory.length - 1]; // Show latest child result
+
+            if (childResult.status === 'loading') {
+                return <div key={childPrompt.id} className="flex items-center gap-2 text-xs text-text-tertiary"><SpinnerIcon /><span>{childPrompt.text}</span></div>
+            }
+
+            if (childResult.status === 'error' && !Array.isArray(childResult.data)) {
+                return <p key={childPrompt.id} className="text-red-400 text-xs" title={childPrompt.text}>Error: {childResult.error}</p>;
+            }
+            if (!Array.isArray(childResult.data)) return null;
+
+            const childResultData = childResult.data as BboxChildResult[];
+            const boxResult = childResultData.find(cr => 
+                cr.parentBox.label === box.label && 
+                JSON.stringify(cr.parentBox.box) === JSON.stringify(box.box)
+            );
+            
+            if (boxResult) {
+                return <BboxChildResultDisplay key={childPrompt.id} prompt={childPrompt} resultData={boxResult.resultData} metrics={boxResult.metrics} reasoning={boxResult.reasoning} crop={boxResult.crop} error={boxResult.error} attempts={boxResult.attempts} />;
+            }
+            return null;
+        })}
+    </div>
+);
+
+interface JsonLine {
+    text: string;
+    path: string; // JSON Pointer of the value that starts on this line
+    depth: number;
+}
+
+// Lays the value out like JSON.stringify(value, null, 2), remembering which value each line starts.
+const toJsonLines = (value: unknown, path = '', depth = 0, prefix = '', suffix = ''): JsonLine[] => {
+    const isArray = Array.isArray(value);
+    if (value === null || typeof value !== 'object') return [{ text: `${prefix}${JSON.stringify(value) ?? 'null'}${suffix}`, path, depth }];
+    const entries: [string | number, unknown][] = isArray ? (value as unknown[]).map((item, index) => [index, item]) : Object.entries(value as object);
+    const [open, close] = isArray ? ['[', ']'] : ['{', '}'];
+    if (entries.length === 0) return [{ text: `${prefix}${open}${close}${suffix}`, path, depth }];
+    return [
+        { text: `${prefix}${open}`, path, depth },
+        ...entries.flatMap(([key, child], index) => toJsonLines(
+            child,
+            joinPointer(path, key),
+            depth + 1,
+            isArray ? '' : `${JSON.stringify(key)}: `,
+            index < entries.length - 1 ? ',' : '',
+        )),
+        { text: `${close}${suffix}`, path: `${path}#close`, depth },
+    ];
+};
+
+// The JSON answer with the lines that break the schema highlighted and their violations next to them.
+const SchemaAnnotatedJson: React.FC<{ value: unknown, violations: SchemaViolation[] }> = ({ value, violations }) => {
+    const byPath = new Map<string, string[]>();
+    violations.forEach(v => byPath.set(v.path, [...(byPath.get(v.path) || []), v.message]));
+    return (
+        <div className="space-y-1">
+            <p className="text-xs text-yellow-400">
+                {violations.length} schema violation{violations.length === 1 ? '' : 's'}
+            </p>
+            <pre className="text-xs bg-brand-primary p-3 rounded-md max-h-64 overflow-auto text-text-secondary">
+                <code>
+                    {toJsonLines(value).map((line, index) => {
+                        const messages = byPath.get(line.path);
+                        return (
+                            <div key={index} className={messages ? 'bg-red-500/15 -mx-3 px-3' : undefined}>
+                                {'  '.repeat(line.depth)}{line.text}
+                                {messages && <span className="text-red-400 font-sans ml-3">{messages.join(' ')}</span>}
+                            </div>
+                        );
+                    })}
+                </code>
+            </pre>
+        </div>
+    );
+};
+
+// Probabilities the model gave each allowed answer at the answer's first token.
+const AnswerConfidence: React.FC<{ probabilities: Record<string, number>, prompt: Prompt }> = ({ probabilities, prompt }) => {
+    const entries = (Object.entries(probabilities) as [string, number][]).sort((a, b) => b[1] - a[1]);
+    const colorOf = (answer: string, index: number) => {
+        if (prompt.type === ResultType.YesNo) return answer === 'yes' ? 'bg-green-500' : 'bg-red-500';
+        return index === 0 ? 'bg-brand-accent' : 'bg-text-tertiary opacity-50 border-l border-brand-secondary';
+    };
+    return (
+        <div className="mt-3 space-y-1">
+            <div className="flex justify-between text-[11px] font-mono text-text-tertiary">
+                <span>token probability</span>
+                <span className={entries[0][1] >= 0.8 ? 'text-green-400' : entries[0][1] >= 0.5 ? 'text-yellow-400' : 'text-red-400'}>
+                    P({entries[0][0]}) {Math.round(entries[0][1] * 100)}%
+                </span>
+            </div>
+            <div className="flex h-2 rounded-full overflow-hidden bg-brand-primary">
+                {entries.map(([answer, probability], index) => (
+                    <div key={answer} className={colorOf(answer, index)} style={{ width: `${probability * 100}%` }} title={`${answer}: ${(probability * 100).toFixed(1)}%`} />
+                ))}
+            </div>
+            {entries.length > 2 && (
+                <div className="flex flex-wrap gap-x-3 text-[11px] text-text-tertiary">
+                    {entries.map(([answer, probability]) => <span key={answer}><span className="text-text-secondary">{answer}</span> {Math.round(probability * 100)}%</span>)}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const BoxFormatBadge: React.FC<{ boxFormat: BoxFormatReport }> = ({ boxFormat }) => {
+    const convention = `Read as ${BOX_ORDER_LABELS[boxFormat.order]} on a ${BOX_SCALE_LABELS[boxFormat.scale]} scale${boxFormat.autoDetected ? ' (auto-detected)' : ''}.`;
+    return (
+        <span className="text-xs font-mono text-yellow-400 bg-brand-primary px-2 py-1 rounded-md select-none" title={[convention, ...boxFormat.warnings].join('\n')}>
+            check coords
+        </span>
+    );
+};
+
+const MetricsFooter: React.FC<{ metrics: RequestMetrics[], profile?: ProfileSnapshot }> = ({ metrics, profile }) => {
+    if (metrics.length === 0 && !profile) return null;
+    const summary = metrics.length === 0 ? '' : metrics.length === 1 ? formatMetrics(metrics[0]) : formatTotals(sumMetrics(metrics));
+    const details = metrics.map((m, index) => `#${index + 1} ${formatMetrics(m)}`).join('\n');
+    return (
+        <p className="mt-3 text-[11px] font-mono text-text-tertiary select-none" title={metrics.length > 1 ? details : undefined}>
+            {profile && (
+                <span className="font-sans font-semibold text-text-secondary" title={`${profile.modelName} at ${profile.apiEndpoint}`}>
+                    {profile.name}{summary && ' · '}
+                </span>
+            )}
+            {summary}
+        </p>
+    );
+};
+
+const UsageTotalsPanel: React.FC = () => {
+    const { results, images, selectedImageId } = useAppStore();
+    const imageTotals = sumMetrics(collectImageMetrics(selectedImageId ? results[selectedImageId] : undefined));
+    const batchTotals = sumMetrics(images.flatMap(image => collectImageMetrics(results[image.id])));
+    if (batchTotals.requests === 0) return null;
+
+    return (
+        <div className="mb-4 bg-brand-secondary rounded-lg px-4 py-2 text-xs font-mono text-text-tertiary flex flex-col gap-1">
+            <div><span className="font-sans font-semibold text-text-secondary">This image:</span> {formatTotals(imageTotals)}</div>
+            {images.length > 1 && (
+                <div><span className="font-sans font-semibold text-text-secondary">All {images.length} images:</span> {formatTotals(batchTotals)}</div>
+            )}
         </div>
     );
 };
 
+const CATEGORY_MATCH_LABELS: Record<CategoryMatch['method'], string> = {
+    exact: 'Exact',
+    normalized: 'Normalized',
+    synonym: 'Synonym',
+    contains: 'Found in answer',
+    fuzzy: 'Close spelling',
+    invalid: 'Invalid',
+};
+
 const getResultAsString = (prompt: Prompt, result: AnalysisResult): string => {
     if (result.status !== 'success') return `${result.status}...`;
     switch (prompt.type) {
@@ -199,8 +532,18 @@ const getResultAsString = (prompt: Prompt, result: AnalysisResult): string => {
             const boxes = result.data as BoundingBox[];
             if (!boxes || boxes.length === 0) return "No objects detected.";
             return boxes.map(b => `${b.label}: [${b.box.join(', ')}]`).join('\n');
+        case ResultType.Polygon:
+            const polygons = result.data as Polygon[];
+            if (!polygons || polygons.length === 0) return "No objects detected.";
+            return polygons.map(p => `${p.label} (${formatArea(polygonArea(p.points))}): ${JSON.stringify(p.points)}`).join('\n');
+        case ResultType.Points:
+            const points = result.data as KeyPoint[];
+            if (!points || points.length === 0) return "No points found.";
+            return points.map(p => `${p.label}: [${p.point.join(', ')}]`).join('\n');
         case ResultType.Category:
              return result.data as string;
+        case ResultType.MultiCategory:
+             return ((result.data as string[]) || []).join(', ');
         case ResultType.JSON:
              return JSON.stringify(result.data, null, 2);
         default:
@@ -302,14 +645,9 @@ const ResultCard: React.FC<{
             const num = currentResult.data as number;
             return <span className="text-3xl font-bold text-brand-accent">{isNaN(num) ? 'N/A' : num}</span>;
           case ResultType.YesNo:
-            const answer = (currentResult.data as string)?.toLowerCase().trim() || '';
-            const isYes = answer.includes('yes');
             return (
                 <div className="flex items-center gap-2">
-                    {isYes ? <CheckCircleIcon className="h-8 w-8 text-green-400" /> : <XCircleIcon className="h-8 w-8 text-red-400" />}
-                    <span className={`text-2xl font-bold ${isYes ? 'text-green-400' : 'text-red-400'}`}>
-                        {isYes ? 'Yes' : 'No'}
-                    </span>
+                    <YesNoBadge answer={getYesNoAnswer(currentResult)} size="large" />
                     <span className="text-sm text-text-tertiary ml-2 truncate" title={currentResult.data as string}>({currentResult.data as string})</span>
                 </div>
             );
@@ -356,48 +694,121 @@ const ResultCard: React.FC<{
                                     <span className="w-3 h-3 rounded-full" style={{backgroundColor: colors[index % colors.length]}}></span>
                                     {box.label}
                                 </h5>
-                                <div className="pl-5 mt-2 space-y-2">
-                                    {childrenPrompts.map(childPrompt => {
-                                        const childResultHistory = results[childPrompt.id];
-                                        if (!childResultHistory || childResultHistory.length === 0) return null;
-                                        const childResult = childResultHistory[childResultHistory.length - 1]; // Show latest child result
-
-                                        if (childResult.status === 'loading') {
-                                            return <div key={childPrompt.id} className="flex items-center gap-2 text-xs text-text-tertiary"><SpinnerIcon /><span>{childPrompt.text}</span></div>
-                                        }
-
-                                        if (childResult.status !== 'success' || !Array.isArray(childResult.data)) return null;
-
-                                        const childResultData = childResult.data as BboxChildResult[];
-                                        const boxResult = childResultData.find(cr => 
-                                            cr.parentBox.label === box.label && 
-                                            JSON.stringify(cr.parentBox.box) === JSON.stringify(box.box)
-                                        );
-                                        
-                                        if (boxResult) {
-                                            return <BboxChildResultDisplay key={childPrompt.id} prompt={childPrompt} resultData={boxResult.resultData} />;
-                                        }
-                                        return null;
-                                    })}
-                                </div>
+                                <ObjectChildResults box={box} childrenPrompts={childrenPrompts} results={results} />
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            );
+          case ResultType.Polygon: {
+            const polygons = (currentResult.data as Polygon[]) || [];
+            if (polygons.length === 0) {
+                return <p className="text-text-tertiary text-sm">No objects detected.</p>
+            }
+            const polygonChildren = prompts.filter(p => p.parentId === prompt.id && results[p.id]?.length > 0);
+            const areaByLabel = new Map<string, number>();
+            polygons.forEach(p => areaByLabel.set(p.label, (areaByLabel.get(p.label) || 0) + polygonArea(p.points)));
+            return (
+                <div>
+                    <p className="text-text-secondary text-sm mb-3">
+                        Outlined {polygons.length} object{polygons.length > 1 ? 's' : ''}{polygonChildren.length > 0 ? ' with follow-up analysis' : ''}:
+                    </p>
+                    <div className="space-y-2 max-h-96 overflow-y-auto pr-2">
+                        {polygons.map((polygon, index) => (
+                            <div key={index} className="bg-brand-primary p-3 rounded-md">
+                                <h5 className="font-bold text-text-primary text-sm flex items-center gap-2">
+                                    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: getLabelColor(polygon.label) }}></span>
+                                    {polygon.label}
+                                    <span className="ml-auto text-xs font-mono font-normal text-text-tertiary" title="Share of the image area">{formatArea(polygonArea(polygon.points))}</span>
+                                </h5>
+                                {polygonChildren.length > 0 && <ObjectChildResults box={polygonBounds(polygon)} childrenPrompts={polygonChildren} results={results} />}
+                            </div>
+                        ))}
+                    </div>
+                    {areaByLabel.size > 1 && (
+                        <p className="text-xs text-text-tertiary mt-2">
+                            Total area: {[...areaByLabel].map(([label, area]) => `${label} ${formatArea(area)}`).join(', ')}
+                        </p>
+                    )}
+                </div>
+            );
+          }
+          case ResultType.Points: {
+            const points = (currentResult.data as KeyPoint[]) || [];
+            if (points.length === 0) {
+                return <p className="text-text-tertiary text-sm">No points found.</p>
+            }
+            const pointChildren = prompts.filter(p => p.parentId === prompt.id && results[p.id]?.length > 0);
+            const numbers = numberPoints(points, !!prompt.groupPointsByLabel);
+            return (
+                <div>
+                    <p className="text-text-secondary text-sm mb-3">Found {points.length} point{points.length > 1 ? 's' : ''}:</p>
+                    <div className="space-y-1">
+                        {countPointsByLabel(points).map(([label, count]) => (
+                            <div key={label} className="flex items-center gap-2 text-sm">
+                                {prompt.groupPointsByLabel && <span className="w-3 h-3 rounded-full" style={{ backgroundColor: getLabelColor(label) }}></span>}
+                                <span className="text-text-primary">{label}</span>
+                                <span className="ml-auto font-mono font-bold text-text-primary">{count}</span>
                             </div>
                         ))}
                     </div>
+                    {pointChildren.length > 0 && (
+                        <div className="space-y-2 max-h-96 overflow-y-auto pr-2 mt-3">
+                            {points.map((keyPoint, index) => (
+                                <div key={index} className="bg-brand-primary p-3 rounded-md">
+                                    <h5 className="font-bold text-text-primary text-sm">#{numbers[index]} {keyPoint.label}</h5>
+                                    <ObjectChildResults box={pointBounds(keyPoint)} childrenPrompts={pointChildren} results={results} />
+                                </div>
+                            ))}
+                        </div>
+                    )}
                 </div>
             );
-          case ResultType.Category:
+          }
+          case ResultType.Category: {
+            const match = currentResult.categoryMatch;
+            const isInvalid = match?.method === 'invalid';
             return (
-                <div className="flex items-center">
-                    <span className="bg-brand-accent text-white text-sm font-semibold px-3 py-1 rounded-full">
+                <div className="flex items-center flex-wrap gap-2">
+                    <span className={`${isInvalid ? 'bg-red-500/20 text-red-300' : 'bg-brand-accent text-white'} text-sm font-semibold px-3 py-1 rounded-full`}>
                         {currentResult.data as string}
                     </span>
+                    {isInvalid && <span className="text-xs text-red-400" title={`Allowed: ${(prompt.categories || []).join(', ')}`}>Not an allowed category</span>}
+                    {match && !isInvalid && match.method !== 'exact' && (
+                        <span className="text-xs text-text-tertiary">
+                            {CATEGORY_MATCH_LABELS[match.method]} from <span className="font-mono">"{match.raw.length > 80 ? `${match.raw.substring(0, 80)}...` : match.raw}"</span>
+                        </span>
+                    )}
+                </div>
+            );
+          }
+          case ResultType.MultiCategory: {
+            const selections = (currentResult.data as string[]) || [];
+            const selectionError = getSelectionError(prompt, selections);
+            return (
+                <div className="space-y-2">
+                    <div className="flex items-center flex-wrap gap-2">
+                        {selections.length === 0 && <span className="text-text-tertiary text-sm">No category applies.</span>}
+                        {selections.map(category => (
+                            <span
+                                key={category}
+                                className={`${isAllowedCategory(prompt, category) ? 'bg-brand-accent text-white' : 'bg-red-500/20 text-red-300'} text-sm font-semibold px-3 py-1 rounded-full`}
+                                title={isAllowedCategory(prompt, category) ? undefined : 'Not an allowed category'}
+                            >
+                                {category}
+                            </span>
+                        ))}
+                    </div>
+                    {selectionError && <p className="text-xs text-red-400">{selectionError}</p>}
                 </div>
             );
+          }
           case ResultType.JSON:
             try {
                 const jsonData = typeof currentResult.data === 'string' 
                     ? JSON.parse(currentResult.data) 
                     : currentResult.data;
+                if (currentResult.schemaViolations?.length) return <SchemaAnnotatedJson value={jsonData} violations={currentResult.schemaViolations} />;
                 return (
                     <pre className="text-xs bg-brand-primary p-3 rounded-md max-h-64 overflow-auto text-text-secondary">
                         <code>{JSON.stringify(jsonData, null, 2)}</code>
@@ -423,7 +834,10 @@ const ResultCard: React.FC<{
         case ResultType.Number: typeName = 'Number'; break;
         case ResultType.YesNo: typeName = 'Yes/No'; break;
         case ResultType.Category: typeName = 'Category'; break;
+        case ResultType.MultiCategory: typeName = 'Multi-Category'; break;
         case ResultType.JSON: typeName = 'JSON'; break;
+        case ResultType.Polygon: typeName = 'Polygon'; break;
+        case ResultType.Points: typeName = 'Points'; break;
         default:
           const typeString = prompt.type as string;
           typeName = typeString.charAt(0).toUpperCase() + typeString.slice(1);
@@ -446,6 +860,14 @@ const ResultCard: React.FC<{
             <p className="text-xs text-text-tertiary italic mb-3 line-clamp-2">"{prompt.text}"</p>
         </div>
         <div className="flex items-center gap-2 flex-shrink-0">
+            {currentResult.attempts && currentResult.attempts.length > 1 && <AttemptsBadge attempts={currentResult.attempts} />}
+            {currentResult.cacheHit && (
+                <span className="text-xs font-mono text-sky-400 bg-brand-primary px-2 py-1 rounded-md select-none" title="Served from the local response cache. Enable &quot;Bypass response cache&quot; to query the model again.">
+                    cached
+                </span>
+            )}
+            {currentResult.tiles && currentResult.tiles.length > 0 && <TilesBadge tiles={currentResult.tiles} />}
+            {currentResult.boxFormat && currentResult.boxFormat.warnings.length > 0 && <BoxFormatBadge boxFormat={currentResult.boxFormat} />}
             {resultHistory.length > 1 && (
                 <div className="flex items-center gap-1.5 text-text-tertiary bg-brand-primary px-2 py-1 rounded-md">
                     <button onClick={goToPrev} disabled={historyIndex === 0} className="disabled:opacity-40 hover:text-text-primary transition-colors"><ArrowLeftIcon /></button>
@@ -456,14 +878,19 @@ const ResultCard: React.FC<{
              <button onClick={handleCopy} className="text-text-tertiary hover:text-brand-accent transition-colors p-1" title={apiInspectorMode ? "Copy API Payload" : "Copy Result"}>
                 {copySuccess ? <CheckCircleIcon className="h-5 w-5 text-green-500" /> : <ClipboardIcon />}
             </button>
-            {prompt.type === ResultType.BoundingBox && currentResult.status === 'success' && (
+            {isObjectParent(prompt) && currentResult.status === 'success' && (
                 <button onClick={onToggleVisibility} className="text-text-tertiary hover:text-brand-accent transition-colors p-1">
                     {isVisible ? <EyeOffIcon /> : <EyeIcon />}
                 </button>
             )}
         </div>
       </div>
+      {currentResult.inputImages && currentResult.inputImages.length > 0 && <InputImagesStrip inputImages={currentResult.inputImages} />}
+      {currentResult.reasoning && <ReasoningSection text={currentResult.reasoning} isStreaming={currentResult.status === 'loading'} />}
       {renderContent()}
+      {currentResult.status === 'success' && currentResult.sampling && <SamplingDistribution sampling={currentResult.sampling} prompt={prompt} />}
+      {currentResult.status === 'success' && currentResult.answerProbabilities && <AnswerConfidence probabilities={currentResult.answerProbabilities} prompt={prompt} />}
+      <MetricsFooter metrics={getResultMetrics(currentResult)} profile={currentResult.profile} />
     </div>
   );
 };
@@ -484,6 +911,7 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ prompts, results, overl
             imageFileName={imageFileName}
         />
       </div>
+      <UsageTotalsPanel />
       <div className="columns-1 md:columns-2 lg:columns-3 gap-6">
         {topLevelPromptsWithResults.map(prompt => {
             const resultHistory = results[prompt.id] || [];
@@ -493,7 +921,7 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ prompts, results, overl
                 p.parentId === prompt.id && 
                 results[p.id] &&
                 results[p.id].length > 0 &&
-                prompt.type === ResultType.YesNo
+                !isObjectParent(prompt) // Per-object children are shown inside the parent's card
             );
 
             return (
@@ -1,63 +1,229 @@
 import React, { useState, useEffect } from 'react';
-import { XIcon, SaveIcon, ChevronDownIcon } from './icons';
+import { XIcon, SaveIcon, ChevronDownIcon, TrashIcon, SpinnerIcon, CheckCircleIcon, XCircleIcon, ExclamationIcon, PlusIcon } from './icons';
+import { type ProviderType, type ApiSettings, type RetryPolicy, type ConcurrencyLimits, type PreprocessingOptions, type CoordinateFormat, type BoxOrder, type BoxScale, type ModelProfile } from '../types';
+import { PROVIDERS } from '../services/providers';
+import { isCacheAvailable, getCacheStats, clearCache } from '../services/cache';
+import { BOX_ORDER_LABELS, BOX_SCALE_LABELS, DEFAULT_COORDINATE_FORMAT } from '../services/coordinates';
+import { testConnection, type ConnectionReport, type DiagnosticCheck } from '../services/diagnostics';
+import { formatDuration } from '../services/metrics';
+
+const CheckStatusIcon: React.FC<{ status: DiagnosticCheck['status'] }> = ({ status }) => {
+  switch (status) {
+    case 'ok': return <CheckCircleIcon className="h-4 w-4 text-green-400 flex-shrink-0" />;
+    case 'warning': return <ExclamationIcon className="h-4 w-4 text-yellow-400 flex-shrink-0" />;
+    case 'error': return <XCircleIcon className="h-4 w-4 text-red-400 flex-shrink-0" />;
+    default: return <span className="h-4 w-4 flex-shrink-0" />;
+  }
+};
+
+// Number fields are edited as text so they can be left blank.
+interface ProfileDraft extends Omit<ModelProfile, 'maxTokens' | 'temperature'> {
+  maxTokens: string;
+  temperature: string;
+}
+
+const toDraft = (profile: ModelProfile): ProfileDraft => ({
+  ...profile,
+  maxTokens: profile.maxTokens?.toString() ?? '',
+  temperature: profile.temperature?.toString() ?? '',
+});
+
+const fromDraft = (draft: ProfileDraft): ModelProfile => {
+  const parsedMaxTokens = draft.maxTokens ? parseInt(draft.maxTokens, 10) : undefined;
+  const parsedTemperature = draft.temperature ? parseFloat(draft.temperature) : undefined;
+  return {
+    ...draft,
+    name: draft.name.trim() || draft.modelName.trim() || 'Untitled',
+    apiEndpoint: draft.apiEndpoint.trim(),
+    modelName: draft.modelName.trim(),
+    apiKey: draft.apiKey?.trim(),
+    maxTokens: isNaN(parsedMaxTokens!) ? undefined : parsedMaxTokens,
+    temperature: isNaN(parsedTemperature!) ? undefined : parsedTemperature,
+  };
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (endpoint: string, model: string, apiKey: string, maxTokens?: number, temperature?: number, apiInspectorMode?: boolean) => void;
-  currentEndpoint: string;
-  currentModel: string;
-  currentApiKey: string;
-  currentMaxTokens?: number;
-  currentTemperature?: number;
+  onSave: (settings: ApiSettings) => void;
+  currentProfiles: ModelProfile[];
+  currentDefaultProfileId: string;
+  currentPromptGenerationProfileId?: string;
+  currentRetryPolicy: RetryPolicy;
+  currentConcurrency: ConcurrencyLimits;
   currentApiInspectorMode?: boolean;
+  currentPreprocessing: PreprocessingOptions;
 }
 
 const SettingsModal: React.FC<SettingsModalProps> = ({ 
     isOpen, 
     onClose, 
     onSave, 
-    currentEndpoint, 
-    currentModel, 
-    currentApiKey,
-    currentMaxTokens,
-    currentTemperature,
+    currentProfiles,
+    currentDefaultProfileId,
+    currentPromptGenerationProfileId,
+    currentRetryPolicy,
+    currentConcurrency,
     currentApiInspectorMode,
+    currentPreprocessing,
 }) => {
-  const [endpoint, setEndpoint] = useState(currentEndpoint);
-  const [model, setModel] = useState(currentModel);
-  const [apiKey, setApiKey] = useState(currentApiKey);
-  const [maxTokens, setMaxTokens] = useState(currentMaxTokens?.toString() ?? '');
-  const [temperature, setTemperature] = useState(currentTemperature?.toString() ?? '');
+  const [profiles, setProfiles] = useState<ProfileDraft[]>(() => currentProfiles.map(toDraft));
+  const [selectedProfileId, setSelectedProfileId] = useState(currentDefaultProfileId);
+  const [defaultProfileId, setDefaultProfileId] = useState(currentDefaultProfileId);
+  const [promptGenerationProfileId, setPromptGenerationProfileId] = useState(currentPromptGenerationProfileId ?? '');
+  const [maxAttempts, setMaxAttempts] = useState(currentRetryPolicy.maxAttempts.toString());
+  const [timeoutSeconds, setTimeoutSeconds] = useState(currentRetryPolicy.timeoutSeconds?.toString() ?? '');
+  const [retryMalformed, setRetryMalformed] = useState(currentRetryPolicy.retryMalformed);
+  const [retryTransient, setRetryTransient] = useState(currentRetryPolicy.retryTransient);
+  const [globalConcurrency, setGlobalConcurrency] = useState(currentConcurrency.global.toString());
+  const [endpointConcurrency, setEndpointConcurrency] = useState(currentConcurrency.perEndpoint.toString());
   const [apiInspectorMode, setApiInspectorMode] = useState(currentApiInspectorMode ?? false);
+  const [preprocessEnabled, setPreprocessEnabled] = useState(currentPreprocessing.enabled);
+  const [maxLongEdge, setMaxLongEdge] = useState(currentPreprocessing.maxLongEdge.toString());
+  const [imageFormat, setImageFormat] = useState(currentPreprocessing.format);
+  const [imageQuality, setImageQuality] = useState(currentPreprocessing.quality.toString());
   const [isAdvancedOpen, setIsAdvancedOpen] = useState(false);
+  const [cacheStats, setCacheStats] = useState<{ entries: number, bytes: number } | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const [connectionReport, setConnectionReport] = useState<ConnectionReport | null>(null);
+
+  // The connection fields below always edit the selected profile.
+  const selectedProfile = profiles.find(p => p.id === selectedProfileId) || profiles[0];
+  const updateProfile = (patch: Partial<ProfileDraft>) => {
+    setProfiles(prev => prev.map(p => p.id === selectedProfile.id ? { ...p, ...patch } : p));
+  };
+  const { name: profileName, provider, apiEndpoint: endpoint, modelName: model, apiKey = '', maxTokens, temperature } = selectedProfile;
+  const structuredOutput = !!selectedProfile.structuredOutput;
+  const coordinateFormat = selectedProfile.coordinateFormat || DEFAULT_COORDINATE_FORMAT;
+  const setEndpoint = (apiEndpoint: string) => updateProfile({ apiEndpoint });
+  const setModel = (modelName: string) => updateProfile({ modelName });
+  const setApiKey = (key: string) => updateProfile({ apiKey: key });
+  const setMaxTokens = (value: string) => updateProfile({ maxTokens: value });
+  const setTemperature = (value: string) => updateProfile({ temperature: value });
+  const setStructuredOutput = (value: boolean) => updateProfile({ structuredOutput: value });
+  const setCoordinateFormat = (format: CoordinateFormat) => updateProfile({ coordinateFormat: format });
+
+  const refreshCacheStats = () => {
+    if (!isCacheAvailable()) return;
+    getCacheStats().then(setCacheStats).catch(error => console.warn("Failed to read cache stats:", error));
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+        refreshCacheStats();
+        setConnectionReport(null);
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    setConnectionReport(null);
+  }, [selectedProfileId]);
 
   useEffect(() => {
     if (isOpen) {
-        setEndpoint(currentEndpoint);
-        setModel(currentModel);
-        setApiKey(currentApiKey);
-        setMaxTokens(currentMaxTokens?.toString() ?? '');
-        setTemperature(currentTemperature?.toString() ?? '');
+        setProfiles(currentProfiles.map(toDraft));
+        setSelectedProfileId(currentDefaultProfileId);
+        setDefaultProfileId(currentDefaultProfileId);
+        setPromptGenerationProfileId(currentPromptGenerationProfileId ?? '');
+        setMaxAttempts(currentRetryPolicy.maxAttempts.toString());
+        setTimeoutSeconds(currentRetryPolicy.timeoutSeconds?.toString() ?? '');
+        setRetryMalformed(currentRetryPolicy.retryMalformed);
+        setRetryTransient(currentRetryPolicy.retryTransient);
+        setGlobalConcurrency(currentConcurrency.global.toString());
+        setEndpointConcurrency(currentConcurrency.perEndpoint.toString());
         setApiInspectorMode(currentApiInspectorMode ?? false);
-        setIsAdvancedOpen(!!(currentMaxTokens || currentTemperature));
+        setPreprocessEnabled(currentPreprocessing.enabled);
+        setMaxLongEdge(currentPreprocessing.maxLongEdge.toString());
+        setImageFormat(currentPreprocessing.format);
+        setImageQuality(currentPreprocessing.quality.toString());
+        const defaultProfile = currentProfiles.find(p => p.id === currentDefaultProfileId);
+        setIsAdvancedOpen(!!(defaultProfile?.maxTokens || defaultProfile?.temperature || defaultProfile?.structuredOutput));
     }
-  }, [isOpen, currentEndpoint, currentModel, currentApiKey, currentMaxTokens, currentTemperature, currentApiInspectorMode]);
+  }, [isOpen, currentProfiles, currentDefaultProfileId, currentPromptGenerationProfileId, currentRetryPolicy, currentConcurrency, currentApiInspectorMode, currentPreprocessing]);
 
   if (!isOpen) return null;
 
+  const handleClearCache = async () => {
+    if (!window.confirm("Delete all cached model responses?")) return;
+    await clearCache();
+    refreshCacheStats();
+  };
+
+  const handleTestConnection = async () => {
+    setIsTesting(true);
+    setConnectionReport(null);
+    try {
+        const { id, name, ...config } = fromDraft(selectedProfile);
+        setConnectionReport(await testConnection(config));
+    } finally {
+        setIsTesting(false);
+    }
+  };
+
+  const handleProviderChange = (newProvider: ProviderType) => {
+    // Swap in the new provider's default URL unless the user has typed a custom one.
+    if (!endpoint.trim() || endpoint === PROVIDERS[provider].endpointPlaceholder) {
+        updateProfile({ provider: newProvider, apiEndpoint: PROVIDERS[newProvider].endpointPlaceholder });
+    } else {
+        updateProfile({ provider: newProvider });
+    }
+  };
+
+  const handleAddProfile = (source?: ProfileDraft) => {
+    const profile: ProfileDraft = source
+        ? { ...source, id: crypto.randomUUID(), name: `${source.name} (copy)` }
+        : { ...selectedProfile, id: crypto.randomUUID(), name: 'New profile', modelName: '' };
+    setProfiles(prev => [...prev, profile]);
+    setSelectedProfileId(profile.id);
+  };
+
+  const handleDeleteProfile = () => {
+    if (profiles.length <= 1) return;
+    if (!window.confirm(`Delete the profile "${selectedProfile.name}"? Prompts using it will switch to the default profile.`)) return;
+    const remaining = profiles.filter(p => p.id !== selectedProfile.id);
+    setProfiles(remaining);
+    if (defaultProfileId === selectedProfile.id) setDefaultProfileId(remaining[0].id);
+    if (promptGenerationProfileId === selectedProfile.id) setPromptGenerationProfileId('');
+    setSelectedProfileId(defaultProfileId === selectedProfile.id ? remaining[0].id : defaultProfileId);
+  };
+
   const handleSave = () => {
-    const parsedMaxTokens = maxTokens ? parseInt(maxTokens, 10) : undefined;
-    const parsedTemperature = temperature ? parseFloat(temperature) : undefined;
-
-    onSave(
-        endpoint.trim(), 
-        model.trim(), 
-        apiKey.trim(),
-        isNaN(parsedMaxTokens!) ? undefined : parsedMaxTokens,
-        isNaN(parsedTemperature!) ? undefined : parsedTemperature,
+    const parsedMaxAttempts = parseInt(maxAttempts, 10);
+    const parsedTimeout = timeoutSeconds ? parseFloat(timeoutSeconds) : undefined;
+    const parsedGlobalConcurrency = parseInt(globalConcurrency, 10);
+    const parsedEndpointConcurrency = parseInt(endpointConcurrency, 10);
+    const parsedMaxLongEdge = parseInt(maxLongEdge, 10);
+    const parsedQuality = parseFloat(imageQuality);
+
+    onSave({
+        profiles: profiles.map(fromDraft),
+        defaultProfileId,
+        promptGenerationProfileId: promptGenerationProfileId || undefined,
+        retryPolicy: {
+            ...currentRetryPolicy,
+            maxAttempts: isNaN(parsedMaxAttempts) ? currentRetryPolicy.maxAttempts : Math.max(1, parsedMaxAttempts),
+            timeoutSeconds: isNaN(parsedTimeout!) ? undefined : parsedTimeout,
+            retryMalformed,
+            retryTransient,
+        },
+        concurrency: {
+            global: isNaN(parsedGlobalConcurrency) ? currentConcurrency.global : Math.max(1, parsedGlobalConcurrency),
+            perEndpoint: isNaN(parsedEndpointConcurrency) ? currentConcurrency.perEndpoint : Math.max(1, parsedEndpointConcurrency),
+        },
         apiInspectorMode,
-    );
+        preprocessing: {
+            enabled: preprocessEnabled,
+            maxLongEdge: isNaN(parsedMaxLongEdge) ? currentPreprocessing.maxLongEdge : Math.max(0, parsedMaxLongEdge),
+            format: imageFormat,
+            quality: isNaN(parsedQuality) ? currentPreprocessing.quality : Math.min(1, Math.max(0.1, parsedQuality)),
+        },
+    });
     onClose();
   };
   
@@ -70,7 +236,69 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
             <XIcon />
           </button>
         </header>
-        <main className="p-6 space-y-4">
+        <main className="p-6 space-y-4 max-h-[75vh] overflow-y-auto">
+          <div>
+            <label htmlFor="model-profile" className="block text-sm font-medium text-text-secondary mb-1">
+              Model Profile
+            </label>
+            <div className="flex items-center gap-2">
+              <select
+                id="model-profile"
+                value={selectedProfile.id}
+                onChange={(e) => setSelectedProfileId(e.target.value)}
+                className="flex-1 min-w-0 bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
+              >
+                {profiles.map(p => (
+                  <option key={p.id} value={p.id}>{p.name || 'Untitled'}{p.id === defaultProfileId ? ' (default)' : ''}</option>
+                ))}
+              </select>
+              <button onClick={() => handleAddProfile()} title="New profile" className="p-2 rounded-md text-text-secondary hover:text-text-primary hover:bg-brand-tertiary">
+                <PlusIcon />
+              </button>
+              <button onClick={() => handleAddProfile(selectedProfile)} className="text-xs font-semibold text-text-secondary hover:text-text-primary px-1">
+                Duplicate
+              </button>
+              <button
+                onClick={handleDeleteProfile}
+                disabled={profiles.length <= 1}
+                title="Delete profile"
+                className="p-2 rounded-md text-text-secondary hover:text-red-400 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <TrashIcon />
+              </button>
+            </div>
+            <p className="text-xs text-text-tertiary mt-1">
+              A profile is one model connection. Prompts use the default profile unless their settings pick another one.
+            </p>
+          </div>
+          <div>
+            <label htmlFor="profile-name" className="block text-sm font-medium text-text-secondary mb-1">
+              Profile Name
+            </label>
+            <input
+              id="profile-name"
+              type="text"
+              value={profileName}
+              onChange={(e) => updateProfile({ name: e.target.value })}
+              placeholder="e.g., Fast local model"
+              className="w-full bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
+            />
+          </div>
+          <div>
+            <label htmlFor="api-provider" className="block text-sm font-medium text-text-secondary mb-1">
+              API Provider
+            </label>
+            <select
+              id="api-provider"
+              value={provider}
+              onChange={(e) => handleProviderChange(e.target.value as ProviderType)}
+              className="w-full bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
+            >
+              {(Object.keys(PROVIDERS) as ProviderType[]).map(key => (
+                <option key={key} value={key}>{PROVIDERS[key].label}</option>
+              ))}
+            </select>
+          </div>
           <div>
             <label htmlFor="api-endpoint" className="block text-sm font-medium text-text-secondary mb-1">
               API Endpoint URL
@@ -80,7 +308,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
               type="text"
               value={endpoint}
               onChange={(e) => setEndpoint(e.target.value)}
-              placeholder="e.g., http://127.0.0.1:1234/v1/chat/completions"
+              placeholder={`e.g., ${PROVIDERS[provider].endpointPlaceholder}`}
               className="w-full bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
             />
           </div>
@@ -96,6 +324,17 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
               placeholder="e.g., qwen-vl-plus"
               className="w-full bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
             />
+            {connectionReport && connectionReport.models.length > 0 && (
+              <select
+                aria-label="Available models"
+                value={connectionReport.models.includes(model) ? model : ''}
+                onChange={(e) => e.target.value && setModel(e.target.value)}
+                className="mt-2 w-full bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
+              >
+                <option value="">Choose from {connectionReport.models.length} available model{connectionReport.models.length === 1 ? '' : 's'}...</option>
+                {connectionReport.models.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            )}
           </div>
           <div>
             <label htmlFor="api-key" className="block text-sm font-medium text-text-secondary mb-1">
@@ -110,7 +349,63 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
               className="w-full bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
             />
           </div>
+          <div>
+            <button
+              onClick={handleTestConnection}
+              disabled={isTesting || !endpoint.trim()}
+              className="flex items-center gap-2 bg-brand-tertiary hover:bg-opacity-80 text-text-secondary font-semibold py-1.5 px-3 rounded-md transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isTesting && <SpinnerIcon />}
+              {isTesting ? 'Testing...' : 'Test Connection'}
+            </button>
+            {connectionReport && (
+              <ul className="mt-2 space-y-1.5">
+                {connectionReport.checks.map(check => (
+                  <li key={check.label} className="flex items-start gap-2 text-xs">
+                    <CheckStatusIcon status={check.status} />
+                    <span className={check.status === 'skipped' ? 'text-text-tertiary' : 'text-text-secondary'}>
+                      <span className="font-semibold">{check.label}:</span> {check.message}
+                      {check.latencyMs !== undefined && <span className="text-text-tertiary"> ({formatDuration(check.latencyMs)})</span>}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
           
+          <div className="grid grid-cols-2 gap-4 pt-2 border-t border-brand-tertiary">
+            <div>
+              <label htmlFor="default-profile" className="block text-sm font-medium text-text-secondary mb-1">
+                Default Profile
+              </label>
+              <select
+                id="default-profile"
+                value={defaultProfileId}
+                onChange={(e) => setDefaultProfileId(e.target.value)}
+                className="w-full bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
+              >
+                {profiles.map(p => <option key={p.id} value={p.id}>{p.name || 'Untitled'}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="prompt-generation-profile" className="block text-sm font-medium text-text-secondary mb-1">
+                Prompt Generation
+              </label>
+              <select
+                id="prompt-generation-profile"
+                value={promptGenerationProfileId}
+                onChange={(e) => setPromptGenerationProfileId(e.target.value)}
+                className="w-full bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
+              >
+                <option value="">Same as default</option>
+                {profiles.map(p => <option key={p.id} value={p.id}>{p.name || 'Untitled'}</option>)}
+              </select>
+            </div>
+            <p className="col-span-2 text-xs text-text-tertiary -mt-2">
+                The prompt generation profile writes prompts in the Auto-Generate dialog, e.g. a larger model than the one analysing images.
+            </p>
+          </div>
+
           <div className="pt-2">
             <label className="flex items-center gap-2 text-sm font-medium text-text-secondary cursor-pointer">
                 <input
@@ -126,6 +421,25 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
             </p>
           </div>
 
+          <div className="pt-2">
+            <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-text-secondary">Response Cache</span>
+                <button
+                    onClick={handleClearCache}
+                    disabled={!cacheStats || cacheStats.entries === 0}
+                    className="flex items-center gap-1.5 text-xs font-semibold text-text-secondary hover:text-red-400 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <TrashIcon /> Clear
+                </button>
+            </div>
+            <p className="text-xs text-text-tertiary mt-1">
+                {isCacheAvailable()
+                    ? (cacheStats ? `${cacheStats.entries} cached responses (${formatBytes(cacheStats.bytes)}). ` : '')
+                      + 'Answers are reused when the same image, prompt, model, temperature and max tokens are run again.'
+                    : 'Caching needs a secure context (https or localhost) and is disabled here.'}
+            </p>
+          </div>
+
           {/* Advanced Settings */}
           <div className="pt-2">
             <button 
@@ -168,6 +482,192 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                           className="w-full bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
                         />
                     </div>
+                    <div>
+                        <label className="flex items-center gap-2 text-sm font-medium text-text-secondary cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={structuredOutput}
+                                onChange={(e) => setStructuredOutput(e.target.checked)}
+                                disabled={!PROVIDERS[provider].supportsResponseSchema}
+                                className="h-4 w-4 rounded border-brand-tertiary text-brand-accent focus:ring-brand-accent bg-brand-primary"
+                            />
+                            Native Structured Output
+                        </label>
+                        <p className="text-xs text-text-tertiary mt-1 pl-6">
+                            {PROVIDERS[provider].supportsResponseSchema
+                                ? 'Constrains JSON and Bounding Box answers to their schema on the server. Falls back to prompt-only mode if the server rejects it.'
+                                : 'Not supported by this provider; JSON and Bounding Box prompts use prompt-only mode.'}
+                        </p>
+                    </div>
+                    <div>
+                        <span className="block text-sm font-medium text-text-secondary mb-1">Bounding Box Coordinates</span>
+                        <div className="grid grid-cols-2 gap-4">
+                            <select
+                              aria-label="Coordinate order"
+                              value={coordinateFormat.order}
+                              onChange={(e) => setCoordinateFormat({ ...coordinateFormat, order: e.target.value as BoxOrder | 'auto' })}
+                              className="w-full bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
+                            >
+                              <option value="auto">Auto-detect order</option>
+                              {(Object.keys(BOX_ORDER_LABELS) as BoxOrder[]).map(key => <option key={key} value={key}>{BOX_ORDER_LABELS[key]}</option>)}
+                            </select>
+                            <select
+                              aria-label="Coordinate scale"
+                              value={coordinateFormat.scale}
+                              onChange={(e) => setCoordinateFormat({ ...coordinateFormat, scale: e.target.value as BoxScale | 'auto' })}
+                              className="w-full bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
+                            >
+                              <option value="auto">Auto-detect scale</option>
+                              {(Object.keys(BOX_SCALE_LABELS) as BoxScale[]).map(key => <option key={key} value={key}>{BOX_SCALE_LABELS[key]}</option>)}
+                            </select>
+                        </div>
+                        <p className="text-xs text-text-tertiary mt-1">
+                            How this model writes boxes. Answers are converted to [x1, y1, x2, y2] on a 0–1000 grid; boxes that do not fit the convention are flagged on the result card. Auto-detect reads 0–1 floats and pixel values from their range and assumes [y1, x1, y2, x2] for Gemini models.
+                        </p>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="max-attempts" className="block text-sm font-medium text-text-secondary mb-1">
+                              Max Attempts
+                            </label>
+                            <input
+                              id="max-attempts"
+                              type="number"
+                              min="1"
+                              max="10"
+                              value={maxAttempts}
+                              onChange={(e) => setMaxAttempts(e.target.value)}
+                              className="w-full bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="request-timeout" className="block text-sm font-medium text-text-secondary mb-1">
+                              Timeout (seconds)
+                            </label>
+                            <input
+                              id="request-timeout"
+                              type="number"
+                              min="1"
+                              value={timeoutSeconds}
+                              onChange={(e) => setTimeoutSeconds(e.target.value)}
+                              placeholder="No timeout"
+                              className="w-full bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
+                            />
+                        </div>
+                    </div>
+                    <div className="space-y-2">
+                        <label className="flex items-center gap-2 text-sm font-medium text-text-secondary cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={retryMalformed}
+                                onChange={(e) => setRetryMalformed(e.target.checked)}
+                                className="h-4 w-4 rounded border-brand-tertiary text-brand-accent focus:ring-brand-accent bg-brand-primary"
+                            />
+                            Re-ask on unparseable answers
+                        </label>
+                        <label className="flex items-center gap-2 text-sm font-medium text-text-secondary cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={retryTransient}
+                                onChange={(e) => setRetryTransient(e.target.checked)}
+                                className="h-4 w-4 rounded border-brand-tertiary text-brand-accent focus:ring-brand-accent bg-brand-primary"
+                            />
+                            Retry timeouts and 429/5xx errors with backoff
+                        </label>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="global-concurrency" className="block text-sm font-medium text-text-secondary mb-1">
+                              Parallel Requests
+                            </label>
+                            <input
+                              id="global-concurrency"
+                              type="number"
+                              min="1"
+                              value={globalConcurrency}
+                              onChange={(e) => setGlobalConcurrency(e.target.value)}
+                              className="w-full bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="endpoint-concurrency" className="block text-sm font-medium text-text-secondary mb-1">
+                              Per Endpoint
+                            </label>
+                            <input
+                              id="endpoint-concurrency"
+                              type="number"
+                              min="1"
+                              value={endpointConcurrency}
+                              onChange={(e) => setEndpointConcurrency(e.target.value)}
+                              className="w-full bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
+                            />
+                        </div>
+                        <p className="col-span-2 text-xs text-text-tertiary -mt-2">
+                            The selected image is served first and follow-up questions jump the queue. Lower the per-endpoint limit for servers that can only handle one request at a time.
+                        </p>
+                    </div>
+                    <div>
+                        <label className="flex items-center gap-2 text-sm font-medium text-text-secondary cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={preprocessEnabled}
+                                onChange={(e) => setPreprocessEnabled(e.target.checked)}
+                                className="h-4 w-4 rounded border-brand-tertiary text-brand-accent focus:ring-brand-accent bg-brand-primary"
+                            />
+                            Resize and re-encode images before sending
+                        </label>
+                        <p className="text-xs text-text-tertiary mt-1 pl-6">
+                            Applies the EXIF orientation and shrinks large photos in a background worker. Prompts can opt out of resizing in their settings.
+                        </p>
+                    </div>
+                    {preprocessEnabled && (
+                        <div className="grid grid-cols-3 gap-4">
+                            <div>
+                                <label htmlFor="max-long-edge" className="block text-sm font-medium text-text-secondary mb-1">
+                                  Max Long Edge (px)
+                                </label>
+                                <input
+                                  id="max-long-edge"
+                                  type="number"
+                                  min="0"
+                                  step="64"
+                                  value={maxLongEdge}
+                                  onChange={(e) => setMaxLongEdge(e.target.value)}
+                                  placeholder="0 = original"
+                                  className="w-full bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
+                                />
+                            </div>
+                            <div>
+                                <label htmlFor="image-format" className="block text-sm font-medium text-text-secondary mb-1">
+                                  Format
+                                </label>
+                                <select
+                                  id="image-format"
+                                  value={imageFormat}
+                                  onChange={(e) => setImageFormat(e.target.value as PreprocessingOptions['format'])}
+                                  className="w-full bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
+                                >
+                                  <option value="jpeg">JPEG</option>
+                                  <option value="webp">WebP</option>
+                                </select>
+                            </div>
+                            <div>
+                                <label htmlFor="image-quality" className="block text-sm font-medium text-text-secondary mb-1">
+                                  Quality
+                                </label>
+                                <input
+                                  id="image-quality"
+                                  type="number"
+                                  min="0.1"
+                                  max="1"
+                                  step="0.05"
+                                  value={imageQuality}
+                                  onChange={(e) => setImageQuality(e.target.value)}
+                                  className="w-full bg-brand-primary p-2 rounded-md text-sm text-text-primary focus:ring-2 focus:ring-brand-accent focus:outline-none"
+                                />
+                            </div>
+                        </div>
+                    )}
                 </div>
             )}
           </div>
@@ -1,18 +1,25 @@
-import { type Prompt, ResultType, type BoundingBox, type BboxChildResult } from '../types';
-
-interface ApiConfig {
-  apiEndpoint: string;
-  modelName: string;
-  apiKey?: string;
-  maxTokens?: number;
-  temperature?: number;
+import { type Prompt, ResultType, type BoundingBox, type BboxChildResult, type ApiConfig, type RetryPolicy, type AnalysisAttempt, type RequestMetrics, type TokenUsage, type ObjectCrop, type CropOptions, type ConversationTurn, type InputImageRef, type CategoryMatch, type SchemaViolation } from '../types';
+import { getProvider, type ChatMessage, type ProviderAdapter, type ProviderRequest, type ProviderStreamEvent, type RequestOptions } from './providers';
+import { buildRequestMetrics, mergeUsage } from './metrics';
+import { TOP_LOGPROBS, LOGPROB_TYPES, getAnswerProbabilities } from './logprobs';
+import { resolveTemplate, type TemplateContext } from './templates';
+import { matchCategory, shouldReaskInvalidCategory, getInvalidCategoryError, matchCategoryList, getSelectionError, describeSelectionLimits } from './categories';
+import { validateJson, formatViolations } from './jsonSchema';
+import { POLYGON_RESPONSE_SCHEMA, isObjectParent, normalizePolygons } from './polygons';
+import { POINTS_RESPONSE_SCHEMA, normalizePoints } from './points';
+
+export interface ExtraImage extends InputImageRef {
+    dataUrl: string;
 }
 
 interface FetchStreamParams {
     prompt: Prompt;
     imageBase64: string;
+    extraImages?: ExtraImage[]; // Sent after the analyzed image, in this order
+    systemPrompt?: string;
+    templateContext?: TemplateContext;
     config: ApiConfig;
-    conversationHistory?: { question: string, answer: string }[];
+    conversationHistory?: ConversationTurn[];
     followUpQuestion?: string;
     signal: AbortSignal;
 }
@@ -20,6 +27,9 @@ interface FetchStreamParams {
 interface FetchParams {
     prompt: Prompt;
     imageBase64: string;
+    extraImages?: ExtraImage[];
+    systemPrompt?: string;
+    templateContext?: TemplateContext;
     config: ApiConfig;
     signal: AbortSignal;
 }
@@ -28,7 +38,11 @@ interface FetchBboxChildParams {
     prompt: Prompt;
     bbox: BoundingBox;
     imageBase64: string;
+    systemPrompt?: string;
+    templateContext?: TemplateContext; // Without bbox.label, which is filled in per object
     config: ApiConfig;
+    crop?: ObjectCrop; // When missing, the full image is sent with the box coordinates as text
+    signal?: AbortSignal;
 }
 
 interface GeneratePromptsParams {
@@ -40,11 +54,76 @@ interface GeneratePromptsParams {
     allowedTypes: ResultType[];
 }
 
-const stripThinking = (rawContent: string): string => {
-    return rawContent.replace(/<think>[\s\S]*?<\/think>[\s\n]*/, '').trim();
+const BBOX_RESPONSE_SCHEMA = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            box: { type: 'array', items: { type: 'number' }, minItems: 4, maxItems: 4 },
+            label: { type: 'string' },
+        },
+        required: ['box', 'label'],
+    },
 };
 
-export const getFullPromptText = (prompt: Prompt): string => {
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    retryMalformed: true,
+    retryTransient: true,
+    backoffMs: 1000,
+};
+
+const NO_RETRY_POLICY: RetryPolicy = { maxAttempts: 1, retryMalformed: false, retryTransient: false, backoffMs: 0 };
+
+const TRANSIENT_STATUSES = [429, 500, 502, 503, 504];
+
+export class AnalysisError extends Error {
+    attempts: AnalysisAttempt[];
+    metrics?: RequestMetrics; // Set when a response was partly received, e.g. a truncated stream
+    reasoning?: string;
+
+    constructor(message: string, attempts: AnalysisAttempt[], metrics?: RequestMetrics, reasoning?: string) {
+        super(message);
+        this.name = 'AnalysisError';
+        this.attempts = attempts;
+        this.metrics = metrics;
+        this.reasoning = reasoning;
+    }
+}
+
+// Endpoint/model pairs that rejected a schema-constrained request; they stay in prompt-only mode for the session.
+const structuredOutputRejections = new Set<string>();
+
+// Servers without schema support tend to answer 400/422 (or 500 when grammar conversion fails). Only errors that
+// mention the schema count, so unrelated failures like a bad model name or an oversized image are not mistaken for one.
+const SCHEMA_ERROR_PATTERN = /schema|response_format|\bformat\b|grammar/i;
+
+const isSchemaRejection = async (response: Response): Promise<boolean> =>
+    [400, 422, 500].includes(response.status) && SCHEMA_ERROR_PATTERN.test(await response.clone().text().catch(() => ''));
+// Same for servers that rejected a request for token log-probabilities.
+const logprobRejections = new Set<string>();
+
+const THINK_OPEN = '<think>';
+const THINK_CLOSE = '</think>';
+
+// Separates a <think> block from the answer. Some chat templates open the block inside the prompt,
+// in which case the answer contains only the closing tag. `fieldReasoning` is what the server sent separately.
+export const splitReasoning = (rawContent: string, fieldReasoning?: string): { content: string, reasoning?: string } => {
+    const match = rawContent.match(/<think>([\s\S]*?)<\/think>/) || rawContent.match(/^([\s\S]*?)<\/think>/);
+    const reasoning = [fieldReasoning?.trim(), match?.[1].trim()].filter(Boolean).join('\n\n');
+    return {
+        content: (match ? rawContent.replace(match[0], '') : rawContent).trim(),
+        reasoning: reasoning || undefined,
+    };
+};
+
+// Boxes, outlines and points refer to one image, so detection prompts and their per-object children stay single-image.
+export const supportsExtraImages = (prompt: Prompt, parent?: Prompt | null): boolean =>
+    !isObjectParent(prompt) && !isObjectParent(parent ?? undefined);
+
+// Placeholders in the prompt text are resolved first when a template context is given.
+export const getFullPromptText = (prompt: Prompt, templateContext?: TemplateContext): string => {
+    const text = templateContext ? resolveTemplate(prompt.text, templateContext) : prompt.text;
     let regionContext = '';
     if (prompt.type === ResultType.Text && prompt.regionCoords) {
         if (prompt.regionType === 'point') {
@@ -56,35 +135,38 @@ export const getFullPromptText = (prompt: Prompt): string => {
 
     switch (prompt.type) {
         case ResultType.Text:
-            return prompt.text + regionContext;
+            return text + regionContext;
         case ResultType.Score:
             const [min, max] = prompt.scoreRange || [0, 10];
-            return `${prompt.text} Respond with only a single number on a scale of ${min} to ${max}.`;
+            return `${text} Respond with only a single number on a scale of ${min} to ${max}.`;
         case ResultType.Number:
-             return `${prompt.text} Respond with only a single number.`;
+             return `${text} Respond with only a single number.`;
         case ResultType.YesNo:
-            return `${prompt.text} Respond with only the word "Yes" or "No".`;
+            return `${text} Respond with only the word "Yes" or "No".`;
         case ResultType.BoundingBox:
-            return `${prompt.text} For each detected object, provide its bounding box using relative coordinates from 0 to 1000 in an [x1, y1, x2, y2] format. If no objects are found, return an empty array. Return ONLY a valid JSON array of objects, where each object has keys "box" (an array of 4 numbers) and "label" (a string).`;
+            return `${text} For each detected object, provide its bounding box using relative coordinates from 0 to 1000 in an [x1, y1, x2, y2] format. If no objects are found, return an empty array. Return ONLY a valid JSON array of objects, where each object has keys "box" (an array of 4 numbers) and "label" (a string).`;
+        case ResultType.Polygon:
+            return `${text} For each detected object, trace its outline as a polygon of [x, y] points using relative coordinates from 0 to 1000, following the object's boundary in order with enough points to capture its shape. If no objects are found, return an empty array. Return ONLY a valid JSON array of objects, where each object has keys "points" (an array of [x, y] pairs) and "label" (a string).`;
+        case ResultType.Points:
+            return `${text} For each instance, mark a single point at its center as [x, y] using relative coordinates from 0 to 1000. Mark every instance separately, even when they touch or overlap. If none are found, return an empty array. Return ONLY a valid JSON array of objects, where each object has keys "point" (an array of 2 numbers) and "label" (a string).`;
         case ResultType.Category:
-            if (!prompt.categories || prompt.categories.length === 0) return prompt.text;
-            return `${prompt.text} Respond with only one of the following categories: ${JSON.stringify(prompt.categories)}.`;
+            if (!prompt.categories || prompt.categories.length === 0) return text;
+            return `${text} Respond with only one of the following categories: ${JSON.stringify(prompt.categories)}.`;
+        case ResultType.MultiCategory: {
+            if (!prompt.categories || prompt.categories.length === 0) return text;
+            const limits = describeSelectionLimits(prompt);
+            return `${text} Respond with only a JSON array of every category that applies${limits ? ` (${limits})` : ''}, chosen from the following categories: ${JSON.stringify(prompt.categories)}.${prompt.minSelections ? '' : ' If none apply, return an empty array.'}`;
+        }
         case ResultType.JSON:
-            if (!prompt.jsonSchema) return prompt.text;
-            return `${prompt.text} Return ONLY a valid JSON object that strictly adheres to the following schema. Do not include any other text or markdown formatting. Schema: ${prompt.jsonSchema}`;
+            if (!prompt.jsonSchema) return text;
+            return `${text} Return ONLY a valid JSON object that strictly adheres to the following schema. Do not include any other text or markdown formatting. Schema: ${prompt.jsonSchema}`;
         default:
-            return prompt.text;
+            return text;
     }
 };
 
-const getFullPromptTextForBboxChild = (prompt: Prompt, bbox: BoundingBox): string => {
-    const baseText = prompt.text;
-    const context = `Focus your answer ONLY on the object labeled "${bbox.label}" within the area defined by the bounding box [${bbox.box.join(', ')}] (relative to a 1000x1000 image).`;
-    const fullText = `${baseText} ${context}`;
-
+const withBboxChildAnswerFormat = (prompt: Prompt, fullText: string): string => {
     switch (prompt.type) {
-        case ResultType.Text:
-            return fullText;
         case ResultType.Score:
             const [min, max] = prompt.scoreRange || [0, 10];
             return `${fullText} Respond with only a single number on a scale of ${min} to ${max}.`;
@@ -92,233 +174,491 @@ const getFullPromptTextForBboxChild = (prompt: Prompt, bbox: BoundingBox): strin
              return `${fullText} Respond with only a single number.`;
         case ResultType.YesNo:
             return `${fullText} Respond with only the word "Yes" or "No".`;
-        case ResultType.BoundingBox:
-             return `${baseText} Search for objects ONLY within the area defined by [${bbox.box.join(', ')}]. ${context} Return ONLY a valid JSON array of objects, where each object has keys "box" (an array of 4 numbers relative to the 1000x1000 canvas) and "label" (a string).`;
         default:
             return fullText;
     }
 };
 
-export async function* fetchAnalysisStream(params: FetchStreamParams): AsyncGenerator<{ type: 'delta', content: string } | { type: 'error', error: string }> {
-    const { prompt, imageBase64, config, conversationHistory = [], followUpQuestion, signal } = params;
+const getFullPromptTextForBboxChild = (prompt: Prompt, bbox: BoundingBox): string => {
+    const baseText = prompt.text;
+    const context = `Focus your answer ONLY on the object labeled "${bbox.label}" within the area defined by the bounding box [${bbox.box.join(', ')}] (relative to a 1000x1000 image).`;
+
+    if (prompt.type === ResultType.BoundingBox) {
+        return `${baseText} Search for objects ONLY within the area defined by [${bbox.box.join(', ')}]. ${context} Return ONLY a valid JSON array of objects, where each object has keys "box" (an array of 4 numbers relative to the 1000x1000 canvas) and "label" (a string).`;
+    }
+    return withBboxChildAnswerFormat(prompt, `${baseText} ${context}`);
+};
+
+const getFullPromptTextForBboxCrop = (prompt: Prompt, bbox: BoundingBox, mode: CropOptions['mode']): string => {
+    const context = mode === 'crop_and_full'
+        ? `The first image is the full scene. The second image is a close-up crop of the object labeled "${bbox.label}", located at [${bbox.box.join(', ')}] in the full scene (relative to a 1000x1000 image). Answer ONLY about that object.`
+        : `The image is a close-up crop of an object labeled "${bbox.label}". Answer ONLY about this object.`;
+    return withBboxChildAnswerFormat(prompt, `${prompt.text} ${context}`);
+};
+
+const getResponseSchema = (prompt: Prompt): object | undefined => {
+    switch (prompt.type) {
+        case ResultType.BoundingBox:
+            return BBOX_RESPONSE_SCHEMA;
+        case ResultType.Polygon:
+            return POLYGON_RESPONSE_SCHEMA;
+        case ResultType.Points:
+            return POINTS_RESPONSE_SCHEMA;
+        case ResultType.MultiCategory:
+            if (!prompt.categories?.some(c => c.trim())) return undefined;
+            return { type: 'array', items: { type: 'string', enum: prompt.categories }, minItems: prompt.minSelections, maxItems: prompt.maxSelections };
+        case ResultType.JSON:
+            if (!prompt.jsonSchema) return undefined;
+            try {
+                return JSON.parse(prompt.jsonSchema);
+            } catch (e) {
+                return undefined;
+            }
+        default:
+            return undefined;
+    }
+};
+
+const parseAnalysisContent = (prompt: Prompt, content: string): any => {
+    if (prompt.type === ResultType.BoundingBox || prompt.type === ResultType.JSON || prompt.type === ResultType.Polygon || prompt.type === ResultType.Points) {
+        let parsed;
+        try {
+            const cleanedContent = content.replace(/```json\n?|```/g, '').trim();
+            parsed = JSON.parse(cleanedContent);
+        } catch (e) { throw new Error(`Failed to parse JSON for ${prompt.type}: ${(e as Error).message}`); }
+        if (prompt.type === ResultType.Polygon) return normalizePolygons(parsed);
+        return prompt.type === ResultType.Points ? normalizePoints(parsed) : parsed;
+    }
+    if (prompt.type === ResultType.Score || prompt.type === ResultType.Number) {
+        const scoreMatch = content.match(/-?\d+(\.\d+)?/);
+        if (!scoreMatch) throw new Error(`Expected a number for ${prompt.type}, but the answer contained none.`);
+        return parseFloat(scoreMatch[0]);
+    }
+    return content;
+};
+
+const buildRepairInstruction = (badAnswer: string, error: string): string => {
+    const quoted = badAnswer.length > 2000 ? `${badAnswer.substring(0, 2000)}...` : badAnswer;
+    return `Your previous answer could not be used.\n\nPrevious answer:\n${quoted}\n\nError: ${error}\n\nAnswer the original request again and follow its output format exactly. Do not add any explanation.`;
+};
+
+const EXTRA_IMAGE_ROLES: Record<InputImageRef['kind'], string> = {
+    previous: 'the previous image in the series',
+    next: 'the next image in the series',
+    reference: 'a reference image',
+};
+
+// Numbers the images in the order they are attached, so prompts can refer to "image 2" and the like.
+const describeImageInputs = (extraImages: ExtraImage[]): string => {
+    const descriptions = extraImages.map((image, index) => `Image ${index + 2} is ${EXTRA_IMAGE_ROLES[image.kind]} ("${image.name}").`);
+    return `You are given ${extraImages.length + 1} images. Image 1 is the image to analyze. ${descriptions.join(' ')}`;
+};
+
+const systemMessages = (systemPrompt?: string): ChatMessage[] =>
+    systemPrompt?.trim() ? [{ role: 'system', text: systemPrompt.trim() }] : [];
+
+// Few-shot examples become earlier turns: the same question about the example image, answered as expected.
+const buildExampleTurns = (prompt: Prompt, questionText: string): ChatMessage[] =>
+    (prompt.examples || []).filter(example => example.image && example.answer.trim()).flatMap((example): ChatMessage[] => [
+        { role: 'user', text: questionText, images: [example.image] },
+        { role: 'assistant', text: example.answer.trim() },
+    ]);
 
-    const messages: any[] = [{
-        role: "user",
-        content: [
-            { type: "text", text: getFullPromptText(prompt) },
-            { type: "image_url", image_url: { url: imageBase64 } }
-        ]
-    }];
+const buildAnalysisMessages = (params: Omit<FetchStreamParams, 'config' | 'signal'>): ChatMessage[] => {
+    const { prompt, imageBase64, extraImages = [], systemPrompt, templateContext, conversationHistory = [], followUpQuestion } = params;
+    const fullPromptText = getFullPromptText(prompt, templateContext);
+    const messages: ChatMessage[] = [...systemMessages(systemPrompt), ...buildExampleTurns(prompt, fullPromptText), extraImages.length > 0
+        ? { role: 'user', text: `${describeImageInputs(extraImages)}\n\n${fullPromptText}`, images: [imageBase64, ...extraImages.map(image => image.dataUrl)] }
+        : { role: 'user', text: fullPromptText, images: [imageBase64] }];
 
     if (followUpQuestion) {
         conversationHistory.forEach((turn, index) => {
-            if (index === 0 && turn.question === getFullPromptText(prompt)) {
+            if (index === 0 && turn.question === fullPromptText) {
                 // Handled by initial message
             } else {
-                messages.push({ role: "user", content: turn.question });
+                messages.push({ role: 'user', text: turn.question });
             }
-            messages.push({ role: "assistant", content: turn.answer });
+            messages.push({ role: 'assistant', text: turn.answer });
         });
-        messages.push({ role: "user", content: followUpQuestion });
+        messages.push({ role: 'user', text: followUpQuestion });
     }
 
-    const headers: HeadersInit = { 'Content-Type': 'application/json' };
-    if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
-    
-    const body: any = {
-        model: config.modelName,
-        messages,
-        stream: true,
-    };
-    if (config.maxTokens) body.max_tokens = config.maxTokens;
-    if (config.temperature !== undefined) body.temperature = config.temperature;
+    return messages;
+};
 
-    const response = await fetch(config.apiEndpoint, {
+export const buildAnalysisRequest = (params: Omit<FetchStreamParams, 'signal'>, options: RequestOptions, repairTurns: ChatMessage[] = []): ProviderRequest => {
+    const messages = [...buildAnalysisMessages(params), ...repairTurns];
+    return getProvider(params.config.provider).buildRequest(messages, params.config, options);
+};
+
+const getStructuredOutputSchema = (prompt: Prompt, config: ApiConfig): object | undefined => {
+    if (!config.structuredOutput || !getProvider(config.provider).supportsResponseSchema) return undefined;
+    if (structuredOutputRejections.has(`${config.apiEndpoint}|${config.modelName}`)) return undefined;
+    return getResponseSchema(prompt);
+};
+
+const getTopLogprobs = (prompt: Prompt, config: ApiConfig): number | undefined => {
+    if (!LOGPROB_TYPES.includes(prompt.type) || !getProvider(config.provider).supportsLogprobs) return undefined;
+    return logprobRejections.has(`${config.apiEndpoint}|${config.modelName}`) ? undefined : TOP_LOGPROBS;
+};
+
+const postRequest = (request: ProviderRequest, signal?: AbortSignal): Promise<Response> => {
+    return fetch(request.url, {
         method: 'POST',
-        headers,
-        body: JSON.stringify(body),
+        headers: request.headers,
+        body: JSON.stringify(request.body),
         signal,
     });
+};
 
-    if (!response.ok || !response.body) {
-        throw new Error(`API request failed with status ${response.status}`);
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new DOMException('Aborted', 'AbortError'));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+// Sends the request at least once, retrying 429/5xx responses and timeouts while the policy allows.
+// Failed attempts are appended to `attempts`; the caller records the outcome of the returned response.
+// Responses for which `isFallback` holds are returned without retrying, so the caller can drop the feature that failed.
+const sendWithRetry = async (
+    getRequest: () => ProviderRequest,
+    policy: RetryPolicy,
+    attempts: AnalysisAttempt[],
+    signal?: AbortSignal,
+    isFallback?: (response: Response) => Promise<boolean>,
+): Promise<{ response: Response, request: ProviderRequest, startedAt: number }> => {
+    while (true) {
+        const request = getRequest();
+        const startedAt = performance.now();
+        const canRetry = policy.retryTransient && attempts.length + 1 < policy.maxAttempts;
+        const backoff = policy.backoffMs * 2 ** attempts.length;
+
+        // The timeout only covers waiting for the response headers, so long streams aren't cut off.
+        const controller = new AbortController();
+        const forwardAbort = () => controller.abort(signal?.reason);
+        if (signal?.aborted) forwardAbort();
+        else signal?.addEventListener('abort', forwardAbort, { once: true });
+        let timedOut = false;
+        const timer = policy.timeoutSeconds
+            ? setTimeout(() => { timedOut = true; controller.abort(); }, policy.timeoutSeconds * 1000)
+            : undefined;
+
+        let response: Response;
+        try {
+            response = await postRequest(request, controller.signal);
+        } catch (error) {
+            if (!timedOut) throw error;
+            const message = `Request timed out after ${policy.timeoutSeconds}s.`;
+            attempts.push({ outcome: 'timeout', error: message, durationMs: performance.now() - startedAt });
+            if (!canRetry) throw new AnalysisError(message, attempts);
+            await sleep(backoff, signal);
+            continue;
+        } finally {
+            clearTimeout(timer);
+        }
+
+        if (TRANSIENT_STATUSES.includes(response.status) && canRetry && !(await isFallback?.(response))) {
+            attempts.push({ outcome: 'http_error', error: `API request failed with status ${response.status}`, durationMs: performance.now() - startedAt });
+            const retryAfterSeconds = parseFloat(response.headers.get('Retry-After') || '');
+            await sleep(isNaN(retryAfterSeconds) ? backoff : retryAfterSeconds * 1000, signal);
+            continue;
+        }
+
+        return { response, request, startedAt };
     }
+};
 
-    const reader = response.body.getReader();
+export async function* readProviderStream(response: Response, adapter: ProviderAdapter): AsyncGenerator<ProviderStreamEvent> {
+    const reader = response.body!.getReader();
     const decoder = new TextDecoder();
     let buffer = '';
-    
-    // State machine: 'initial', 'skipping_think', 'streaming'
-    let parsingState: 'initial' | 'skipping_think' | 'streaming' = 'initial';
-    let accumulatedContent = '';
-    
+
+    const parseLine = (line: string): ProviderStreamEvent | null => {
+        try {
+            return adapter.parseStreamLine(line.trim());
+        } catch (e) {
+            if (!(e instanceof SyntaxError)) throw e;
+            console.warn("Failed to parse stream chunk:", line);
+            return null;
+        }
+    };
+
     while (true) {
         const { done, value } = await reader.read();
         if (done) break;
-        
+
         buffer += decoder.decode(value, { stream: true });
         const lines = buffer.split('\n');
         buffer = lines.pop() || '';
 
         for (const line of lines) {
-            if (line.startsWith('data: ')) {
-                const jsonStr = line.substring(6);
-                if (jsonStr === '[DONE]') continue;
-                try {
-                    const chunk = JSON.parse(jsonStr);
-                    if (chunk.choices[0]?.finish_reason === 'length') {
-                        yield { type: 'error', error: 'Response was truncated due to token limit.' };
-                        return;
-                    }
-                    const delta = chunk.choices[0]?.delta?.content || '';
-                    if (!delta) continue;
-
-                    if (parsingState === 'initial') {
-                        accumulatedContent += delta;
-                        // Once we have some content, decide the state
-                        if (accumulatedContent.trim().length > 0) {
-                            if (accumulatedContent.trim().startsWith('<think>')) {
-                                parsingState = 'skipping_think';
-                                // Check if the think block is already complete in this chunk
-                                const endThinkTagIndex = accumulatedContent.indexOf('</think>');
-                                if (endThinkTagIndex !== -1) {
-                                    parsingState = 'streaming';
-                                    const remainingContent = accumulatedContent.substring(endThinkTagIndex + '</think>'.length);
-                                    if (remainingContent) {
-                                        yield { type: 'delta', content: remainingContent.trimStart() };
-                                    }
-                                    accumulatedContent = '';
-                                }
-                            } else {
-                                // No think block, start streaming immediately
-                                parsingState = 'streaming';
-                                yield { type: 'delta', content: accumulatedContent };
-                                accumulatedContent = ''; // clear buffer
-                            }
-                        }
-                    } else if (parsingState === 'skipping_think') {
-                        accumulatedContent += delta;
-                        const endThinkTagIndex = accumulatedContent.indexOf('</think>');
-                        if (endThinkTagIndex !== -1) {
-                            parsingState = 'streaming';
-                            const remainingContent = accumulatedContent.substring(endThinkTagIndex + '</think>'.length);
-                            if (remainingContent) {
-                                yield { type: 'delta', content: remainingContent.trimStart() };
-                            }
-                            accumulatedContent = ''; // clear buffer
-                        }
-                    } else if (parsingState === 'streaming') {
-                        yield { type: 'delta', content: delta };
-                    }
-
-                } catch (e) {
-                    console.warn("Failed to parse stream chunk:", jsonStr);
-                }
-            }
+            const event = parseLine(line);
+            if (event) yield event;
         }
     }
-}
 
-export async function fetchAnalysis(params: FetchParams): Promise<{ parsedData: any, rawResponse: any }> {
-    const { prompt, imageBase64, config, signal } = params;
+    const event = parseLine(buffer);
+    if (event) yield event;
+}
 
-    const messages: any[] = [{
-        role: "user",
-        content: [
-            { type: "text", text: getFullPromptText(prompt) },
-            { type: "image_url", image_url: { url: imageBase64 } }
-        ]
-    }];
+export async function* fetchAnalysisStream(params: FetchStreamParams): AsyncGenerator<{ type: 'delta' | 'reasoning', content: string } | { type: 'done', attempts: AnalysisAttempt[], metrics: RequestMetrics }> {
+    const { config, signal } = params;
+    const adapter = getProvider(config.provider);
+    const attempts: AnalysisAttempt[] = [];
 
-    const headers: HeadersInit = { 'Content-Type': 'application/json' };
-    if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
-    
-    const body: any = {
-        model: config.modelName,
-        messages,
-        stream: false,
-    };
-    if (config.maxTokens) body.max_tokens = config.maxTokens;
-    if (config.temperature !== undefined) body.temperature = config.temperature;
-    
-    const response = await fetch(config.apiEndpoint, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(body),
+    const { response, startedAt } = await sendWithRetry(
+        () => buildAnalysisRequest(params, { stream: true }),
+        config.retryPolicy || NO_RETRY_POLICY,
+        attempts,
         signal,
-    });
-    
-    if (!response.ok) throw new Error(`API request failed with status ${response.status}`);
-    
-    const data = await response.json();
-    if (data.choices[0]?.finish_reason === 'length') {
-        throw new Error("Response was truncated due to token limit.");
+    );
+
+    if (!response.ok || !response.body) {
+        const message = `API request failed with status ${response.status}`;
+        attempts.push({ outcome: 'http_error', error: message, durationMs: performance.now() - startedAt });
+        throw new AnalysisError(message, attempts);
     }
-    const content = stripThinking(data.choices[0].message.content);
-    let parsedData;
-    if (prompt.type === ResultType.BoundingBox || prompt.type === ResultType.JSON) {
-        try {
-            const cleanedContent = content.replace(/```json\n?|```/g, '').trim();
-            parsedData = JSON.parse(cleanedContent);
-        } catch (e) { throw new Error(`Failed to parse JSON for ${prompt.type}.`); }
-    } else if (prompt.type === ResultType.Score || prompt.type === ResultType.Number) {
-        const scoreMatch = content.match(/-?\d+(\.\d+)?/);
-        parsedData = scoreMatch ? parseFloat(scoreMatch[0]) : NaN;
-    } else {
-        parsedData = content;
+
+    // The answer may open with a <think> block; its contents are streamed as reasoning rather than answer text.
+    let parsingState: 'initial' | 'thinking' | 'answering' = 'initial';
+    let pending = '';
+    let reasoning = '';
+    let usage: TokenUsage | undefined;
+    let firstTokenAt: number | undefined;
+
+    for await (const event of readProviderStream(response, adapter)) {
+        if (event.usage) usage = mergeUsage(usage, event.usage);
+        if (event.truncated) {
+            const message = 'Response was truncated due to token limit.';
+            attempts.push({ outcome: 'malformed', error: message, durationMs: performance.now() - startedAt });
+            throw new AnalysisError(message, attempts, buildRequestMetrics(usage, startedAt, firstTokenAt, reasoning), reasoning || undefined);
+        }
+        // Measured on the raw stream, so time spent reasoning counts towards generation.
+        if (firstTokenAt === undefined && (event.reasoning || event.content)) firstTokenAt = performance.now();
+        if (event.reasoning) {
+            reasoning += event.reasoning;
+            yield { type: 'reasoning', content: event.reasoning };
+        }
+        if (!event.content) continue;
+        pending += event.content;
+
+        if (parsingState === 'initial') {
+            const trimmed = pending.trimStart();
+            // Wait until we know whether the answer opens with a think tag.
+            if (THINK_OPEN.startsWith(trimmed)) continue;
+            if (trimmed.startsWith(THINK_OPEN)) {
+                parsingState = 'thinking';
+                pending = trimmed.substring(THINK_OPEN.length);
+            } else {
+                parsingState = 'answering';
+            }
+        }
+        if (parsingState === 'thinking') {
+            const endIndex = pending.indexOf(THINK_CLOSE);
+            if (endIndex === -1) {
+                // Hold back a possible partial closing tag split across chunks.
+                const safeLength = pending.length - (THINK_CLOSE.length - 1);
+                if (safeLength > 0) {
+                    reasoning += pending.substring(0, safeLength);
+                    yield { type: 'reasoning', content: pending.substring(0, safeLength) };
+                    pending = pending.substring(safeLength);
+                }
+                continue;
+            }
+            if (endIndex > 0) {
+                reasoning += pending.substring(0, endIndex);
+                yield { type: 'reasoning', content: pending.substring(0, endIndex) };
+            }
+            pending = pending.substring(endIndex + THINK_CLOSE.length).trimStart();
+            parsingState = 'answering';
+        }
+        if (parsingState === 'answering' && pending) {
+            yield { type: 'delta', content: pending };
+            pending = '';
+        }
+    }
+    if (pending) {
+        // A think block that never closed is all reasoning; a lone partial tag is answer text.
+        if (parsingState === 'thinking') reasoning += pending;
+        yield parsingState === 'thinking' ? { type: 'reasoning', content: pending } : { type: 'delta', content: pending };
     }
 
-    return { parsedData, rawResponse: data };
+    attempts.push({ outcome: 'success', durationMs: performance.now() - startedAt });
+    yield { type: 'done', attempts, metrics: buildRequestMetrics(usage, startedAt, firstTokenAt, reasoning) };
 }
 
-export async function fetchBboxChildAnalysis(params: FetchBboxChildParams): Promise<BboxChildResult | null> {
-    const { prompt, bbox, imageBase64, config } = params;
-    try {
-        const fullPromptText = getFullPromptTextForBboxChild(prompt, bbox);
-        
-        const messages = [{
-            role: "user",
-            content: [
-                { type: "text", text: fullPromptText },
-                { type: "image_url", image_url: { url: imageBase64 } }
-            ]
-        }];
-        
-        const headers: HeadersInit = { 'Content-Type': 'application/json' };
-        if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
-        
-        const body = {
-            model: config.modelName,
-            messages: messages,
-            stream: false,
-            ...(config.maxTokens && {max_tokens: config.maxTokens}),
-            ...(config.temperature !== undefined && {temperature: config.temperature}),
-        };
+export async function fetchAnalysis(params: FetchParams): Promise<{ parsedData: any, rawResponse: any, requestPayload: any, attempts: AnalysisAttempt[], metrics: RequestMetrics, reasoning?: string, answerProbabilities?: Record<string, number>, categoryMatch?: CategoryMatch, schemaViolations?: SchemaViolation[] }> {
+    const { prompt, config, signal } = params;
+    const adapter = getProvider(config.provider);
+    const policy = config.retryPolicy || NO_RETRY_POLICY;
+    const attempts: AnalysisAttempt[] = [];
+    const repairTurns: ChatMessage[] = [];
+    let responseSchema = getStructuredOutputSchema(prompt, config);
+    let topLogprobs = getTopLogprobs(prompt, config);
 
-        const response = await fetch(config.apiEndpoint, {
-            method: 'POST',
-            headers: headers,
-            body: JSON.stringify(body),
-        });
+    while (true) {
+        const { response, request, startedAt } = await sendWithRetry(
+            () => buildAnalysisRequest(params, { stream: false, responseSchema, topLogprobs }, repairTurns),
+            policy,
+            attempts,
+            signal,
+            async response => !!responseSchema && await isSchemaRejection(response),
+        );
+        const elapsed = () => performance.now() - startedAt;
+
+        if (responseSchema && await isSchemaRejection(response)) {
+            console.warn(`Structured output rejected by ${config.apiEndpoint} (status ${response.status}); falling back to prompt-only mode.`);
+            structuredOutputRejections.add(`${config.apiEndpoint}|${config.modelName}`);
+            attempts.push({ outcome: 'http_error', error: `Structured output rejected with status ${response.status}`, durationMs: elapsed() });
+            responseSchema = undefined;
+            continue;
+        }
+        if (topLogprobs && [400, 422].includes(response.status)) {
+            console.warn(`Log-probabilities rejected by ${config.apiEndpoint} (status ${response.status}); continuing without confidence.`);
+            logprobRejections.add(`${config.apiEndpoint}|${config.modelName}`);
+            attempts.push({ outcome: 'http_error', error: `Log-probabilities rejected with status ${response.status}`, durationMs: elapsed() });
+            topLogprobs = undefined;
+            continue;
+        }
+
+        if (!response.ok) {
+            const message = `API request failed with status ${response.status}`;
+            attempts.push({ outcome: 'http_error', error: message, durationMs: elapsed() });
+            throw new AnalysisError(message, attempts);
+        }
 
-        if (!response.ok) throw new Error(`API failed: ${response.status}`);
-        
         const data = await response.json();
-        const content = stripThinking(data.choices[0].message.content);
-        
-        let resultData: string | number | null = null;
-        if (prompt.type === ResultType.Score || prompt.type === ResultType.Number) {
-            const match = content.match(/-?\d+(\.\d+)?/);
-            resultData = match ? parseFloat(match[0]) : NaN;
-        } else { // Text, YesNo
-            resultData = content;
+        const parsed = adapter.parseResponse(data);
+        if (parsed.truncated) {
+            const message = "Response was truncated due to token limit.";
+            attempts.push({ outcome: 'malformed', error: message, durationMs: elapsed() });
+            throw new AnalysisError(message, attempts);
+        }
+        const { content, reasoning } = splitReasoning(parsed.content, parsed.reasoning);
+
+        let parsedData;
+        try {
+            parsedData = parseAnalysisContent(prompt, content);
+        } catch (e) {
+            const message = (e as Error).message;
+            attempts.push({ outcome: 'malformed', error: message, durationMs: elapsed() });
+            if (!policy.retryMalformed || attempts.length >= policy.maxAttempts) throw new AnalysisError(message, attempts);
+            repairTurns.push({ role: 'assistant', text: content }, { role: 'user', text: buildRepairInstruction(content, message) });
+            continue;
+        }
+
+        let categoryMatch: CategoryMatch | undefined;
+        if (prompt.type === ResultType.Category && prompt.categories?.some(c => c.trim())) {
+            categoryMatch = matchCategory(prompt, content);
+            if (categoryMatch.value === null) {
+                const message = getInvalidCategoryError(prompt, categoryMatch.raw);
+                attempts.push({ outcome: 'malformed', error: message, durationMs: elapsed() });
+                if (shouldReaskInvalidCategory(prompt, policy) && attempts.length < policy.maxAttempts) {
+                    repairTurns.push({ role: 'assistant', text: content }, { role: 'user', text: buildRepairInstruction(content, message) });
+                    continue;
+                }
+            }
+            // Answers that still match nothing are kept as written and marked invalid.
+            parsedData = categoryMatch.value ?? categoryMatch.raw;
         }
 
-        return { parentBox: bbox, resultData: resultData };
+        let selectionError: string | null = null;
+        if (prompt.type === ResultType.MultiCategory && prompt.categories?.some(c => c.trim())) {
+            parsedData = matchCategoryList(prompt, content);
+            selectionError = getSelectionError(prompt, parsedData);
+            if (selectionError) {
+                attempts.push({ outcome: 'malformed', error: selectionError, durationMs: elapsed() });
+                if (shouldReaskInvalidCategory(prompt, policy) && attempts.length < policy.maxAttempts) {
+                    repairTurns.push({ role: 'assistant', text: content }, { role: 'user', text: buildRepairInstruction(content, selectionError) });
+                    continue;
+                }
+            }
+        }
+
+        const schema = prompt.type === ResultType.JSON ? getResponseSchema(prompt) : undefined;
+        const schemaViolations = schema ? validateJson(parsedData, schema) : undefined;
+        if (schemaViolations?.length && prompt.schemaViolationPolicy === 'retry') {
+            const message = formatViolations(schemaViolations);
+            attempts.push({ outcome: 'malformed', error: message, durationMs: elapsed() });
+            if (!policy.retryMalformed || attempts.length >= policy.maxAttempts) throw new AnalysisError(message, attempts);
+            repairTurns.push({ role: 'assistant', text: content }, { role: 'user', text: buildRepairInstruction(content, message) });
+            continue;
+        }
 
+        if (categoryMatch?.value !== null && !selectionError) attempts.push({ outcome: 'success', durationMs: elapsed() });
+        const answerProbabilities = topLogprobs ? getAnswerProbabilities(prompt, parsed.logprobs) : undefined;
+        return { parsedData, rawResponse: data, requestPayload: request.body, attempts, metrics: buildRequestMetrics(parsed.usage, startedAt, undefined, reasoning), reasoning, answerProbabilities, categoryMatch, schemaViolations };
+    }
+}
+
+// Failures are returned per object with `error` set, so one bad object doesn't hide the others' answers.
+export async function fetchBboxChildAnalysis(params: FetchBboxChildParams): Promise<BboxChildResult> {
+    const { bbox, imageBase64, systemPrompt, templateContext, config, crop, signal } = params;
+    const prompt = templateContext
+        ? { ...params.prompt, text: resolveTemplate(params.prompt.text, { ...templateContext, bboxLabel: bbox.label }) }
+        : params.prompt;
+    const policy = config.retryPolicy || NO_RETRY_POLICY;
+    const attempts: AnalysisAttempt[] = [];
+    const repairTurns: ChatMessage[] = [];
+    try {
+        const adapter = getProvider(config.provider);
+        const mode = prompt.crop?.mode || 'crop';
+        const message: ChatMessage = crop
+            ? {
+                role: 'user',
+                text: getFullPromptTextForBboxCrop(prompt, bbox, mode),
+                images: mode === 'crop_and_full' ? [imageBase64, crop.dataUrl] : [crop.dataUrl],
+            }
+            : { role: 'user', text: getFullPromptTextForBboxChild(prompt, bbox), images: [imageBase64] };
+
+        while (true) {
+            const { response, startedAt } = await sendWithRetry(
+                () => adapter.buildRequest([...systemMessages(systemPrompt), message, ...repairTurns], config, { stream: false }),
+                policy,
+                attempts,
+                signal,
+            );
+            const elapsed = () => performance.now() - startedAt;
+
+            if (!response.ok) {
+                const error = `API request failed with status ${response.status}`;
+                attempts.push({ outcome: 'http_error', error, durationMs: elapsed() });
+                throw new AnalysisError(error, attempts);
+            }
+
+            const data = await response.json();
+            const parsed = adapter.parseResponse(data);
+            const { content, reasoning } = splitReasoning(parsed.content, parsed.reasoning);
+
+            let resultData: string | number | null = content; // Text, YesNo
+            if (prompt.type === ResultType.Score || prompt.type === ResultType.Number) {
+                const match = content.match(/-?\d+(\.\d+)?/);
+                if (!match) {
+                    const error = `Expected a number for ${prompt.type}, but the answer contained none.`;
+                    attempts.push({ outcome: 'malformed', error, durationMs: elapsed() });
+                    if (!policy.retryMalformed || attempts.length >= policy.maxAttempts) throw new AnalysisError(error, attempts);
+                    repairTurns.push({ role: 'assistant', text: content }, { role: 'user', text: buildRepairInstruction(content, error) });
+                    continue;
+                }
+                resultData = parseFloat(match[0]);
+            }
+
+            attempts.push({ outcome: 'success', durationMs: elapsed() });
+            return { parentBox: bbox, resultData, metrics: buildRequestMetrics(parsed.usage, startedAt, undefined, reasoning), reasoning, crop, attempts };
+        }
     } catch (error) {
+        // A cancelled run leaves no per-object result behind.
+        if (signal?.aborted) throw error;
         console.error(`Bbox child prompt error for "${prompt.text}" on box "${bbox.label}":`, error);
-        return { parentBox: bbox, resultData: `Error: ${(error as Error).message}` };
+        return { parentBox: bbox, resultData: null, error: (error as Error).message, attempts: error instanceof AnalysisError ? error.attempts : attempts, crop };
     }
 }
 
@@ -333,6 +673,9 @@ export async function generatePrompts(params: GeneratePromptsParams): Promise<Pr
     if (allowedTypes.includes(ResultType.Category)) {
         typeSpecificInstructions.push(`- If the "type" is "category", you MUST also include a "categories" property, which is an array of 3 to 5 distinct strings representing the possible categories. Choose a relevant, non-overlapping set of categories.`);
     }
+    if (allowedTypes.includes(ResultType.MultiCategory)) {
+        typeSpecificInstructions.push(`- If the "type" is "multi-category", you MUST also include a "categories" property, which is an array of 3 to 8 distinct strings that can apply at the same time (tags). You MAY include "minSelections" and "maxSelections" numbers.`);
+    }
     if (allowedTypes.includes(ResultType.JSON)) {
         typeSpecificInstructions.push(`- If the "type" is "json", you MUST also include a "jsonSchema" property, which is a string containing a valid, simple JSON schema that defines the structure of the expected output. The schema itself should be a JSON string.`);
     }
@@ -364,28 +707,15 @@ Example JSON Output Structure (your output should only contain types from the al
 ]`;
     
     try {
-        const headers: HeadersInit = { 'Content-Type': 'application/json' };
-        if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
-
-        const content: any[] = [{ type: "text", text: metaPrompt }];
-
-        if (includeImage && imageBase64) {
-            content.push({ type: "image_url", image_url: { url: imageBase64 } });
-        }
-        
-        const body: any = {
-            model: config.modelName,
-            messages: [{ role: "user", content: content }],
-            stream: false,
-        };
-        body.max_tokens = config.maxTokens || 4096;
-        if (config.temperature !== undefined) body.temperature = config.temperature;
-
-        const response = await fetch(config.apiEndpoint, {
-            method: 'POST',
-            headers: headers,
-            body: JSON.stringify(body),
-        });
+        const adapter = getProvider(config.provider);
+        const images = includeImage && imageBase64 ? [imageBase64] : [];
+        const request = adapter.buildRequest(
+            [{ role: 'user', text: metaPrompt, images }],
+            { ...config, maxTokens: config.maxTokens || 4096 },
+            { stream: false },
+        );
+
+        const response = await postRequest(request);
         
         if (!response.ok) {
           const errorBody = await response.text();
@@ -393,14 +723,15 @@ Example JSON Output Structure (your output should only contain types from the al
         }
         
         const data = await response.json();
-        if (data.choices[0]?.finish_reason === 'length') {
+        const parsed = adapter.parseResponse(data);
+        if (parsed.truncated) {
             throw new Error("Response truncated: The model hit the maximum token limit. Consider increasing 'Max Tokens' in advanced settings.");
         }
-        const responseContent = data.choices[0].message.content;
+        const responseContent = parsed.content;
         
         let parsedPrompts: Omit<Prompt, 'id'>[];
         try {
-            const contentWithoutThinking = stripThinking(responseContent);
+            const contentWithoutThinking = splitReasoning(responseContent).content;
             const cleanedContent = contentWithoutThinking.replace(/```json\n?|```/g, '').trim();
             parsedPrompts = JSON.parse(cleanedContent);
         } catch (e) {
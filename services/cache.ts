@@ -0,0 +1,114 @@
+import { type BoxFormatReport, type CategoryMatch, type SamplingSummary, type SchemaViolation, type YesNoAnswer } from '../types';
+
+const DB_NAME = 'local-image-analyst-cache';
+const STORE_NAME = 'responses';
+
+export interface CachedResponse {
+    data: any;
+    rawResponse?: any;
+    boxFormat?: BoxFormatReport;
+    reasoning?: string;
+    sampling?: SamplingSummary;
+    answerProbabilities?: Record<string, number>;
+    categoryMatch?: CategoryMatch;
+    schemaViolations?: SchemaViolation[];
+    yesNoAnswer?: YesNoAnswer;
+    createdAt: number;
+}
+
+interface CacheKeyParts {
+    imageHash: string;
+    promptText: string;
+    modelName: string;
+    temperature?: number;
+    maxTokens?: number;
+    outputFormat?: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const imageHashes = new WeakMap<File, Promise<string>>();
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, 1);
+            request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const toHex = (buffer: ArrayBuffer): string =>
+    Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+// crypto.subtle only exists in secure contexts (https or localhost), so caching is silently off elsewhere.
+export const isCacheAvailable = (): boolean => typeof indexedDB !== 'undefined' && !!globalThis.crypto?.subtle;
+
+export const hashImageFile = (file: File): Promise<string> => {
+    let hash = imageHashes.get(file);
+    if (!hash) {
+        hash = file.arrayBuffer().then(buffer => crypto.subtle.digest('SHA-256', buffer)).then(toHex);
+        imageHashes.set(file, hash);
+    }
+    return hash;
+};
+
+export const buildCacheKey = async (parts: CacheKeyParts): Promise<string> => {
+    const { imageHash, promptText, modelName, temperature, maxTokens, outputFormat } = parts;
+    const material = JSON.stringify([imageHash, promptText, modelName, temperature ?? null, maxTokens ?? null, ...(outputFormat ? [outputFormat] : [])]);
+    return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(material)));
+};
+
+export const getCachedResponse = async (key: string): Promise<CachedResponse | undefined> => {
+    try {
+        const db = await openDb();
+        return await requestToPromise(db.transaction(STORE_NAME).objectStore(STORE_NAME).get(key));
+    } catch (error) {
+        console.warn("Failed to read from response cache:", error);
+        return undefined;
+    }
+};
+
+export const putCachedResponse = async (key: string, entry: Omit<CachedResponse, 'createdAt'>): Promise<void> => {
+    try {
+        const db = await openDb();
+        await requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put({ ...entry, createdAt: Date.now() }, key));
+    } catch (error) {
+        console.warn("Failed to write to response cache:", error);
+    }
+};
+
+export const getCacheStats = async (): Promise<{ entries: number, bytes: number }> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        let entries = 0;
+        let bytes = 0;
+        const encoder = new TextEncoder();
+        const request = db.transaction(STORE_NAME).objectStore(STORE_NAME).openCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) {
+                resolve({ entries, bytes });
+                return;
+            }
+            entries++;
+            bytes += encoder.encode(JSON.stringify(cursor.value)).byteLength; // UTF-8 size of the serialized entry
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const clearCache = async (): Promise<void> => {
+    const db = await openDb();
+    await requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear());
+};
@@ -0,0 +1,141 @@
+import { type CategoryMatch, type Prompt, type RetryPolicy } from '../types';
+import { endsWithNegation } from './yesNo';
+
+// Edits allowed per character of the category, so short categories need a near-exact answer.
+const MAX_EDIT_RATIO = 0.25;
+
+// Case, surrounding quotes and markdown, punctuation and repeated whitespace are ignored.
+export const normalizeCategoryText = (text: string): string =>
+    text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const editDistance = (a: string, b: string): number => {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+// The words must appear at least once without a negation just before them, so "not warm" does not name warm
+// while "not warm but cool" names cool. Normalizing splits "don't" into "don t", which is joined back for the check.
+const containsWords = (text: string, words: string): boolean => {
+    const padded = ` ${text} `;
+    for (let index = padded.indexOf(` ${words} `); index !== -1; index = padded.indexOf(` ${words} `, index + 1)) {
+        const clause = padded.substring(0, index).split(/\bbut\b/).pop()!;
+        if (!endsWithNegation(clause.replace(/ ([ts])\b/g, '$1'))) return true;
+    }
+    return false;
+};
+
+// Every text that stands for a category: its name and its synonyms, normalized.
+const getCandidates = (prompt: Prompt): { category: string, text: string, isSynonym: boolean }[] =>
+    (prompt.categories || []).filter(c => c.trim()).flatMap(category => [
+        { category, text: normalizeCategoryText(category), isSynonym: false },
+        ...(prompt.categorySynonyms?.[category] || []).map(synonym => ({ category, text: normalizeCategoryText(synonym), isSynonym: true })),
+    ]).filter(candidate => candidate.text);
+
+// A single category or none; several equally good candidates for different categories are ambiguous.
+const pickUnique = (candidates: { category: string }[]): string | undefined => {
+    const categories = new Set(candidates.map(c => c.category));
+    return categories.size === 1 ? candidates[0].category : undefined;
+};
+
+// Maps a model answer onto the allowed categories, trying the strictest match first.
+export const matchCategory = (prompt: Prompt, answer: string): CategoryMatch => {
+    const raw = answer.trim();
+    const categories = (prompt.categories || []).filter(c => c.trim());
+    if (categories.length === 0) return { raw, value: raw, method: 'exact' };
+
+    const exact = categories.find(c => c.trim() === raw);
+    if (exact) return { raw, value: exact, method: 'exact' };
+
+    const text = normalizeCategoryText(raw);
+    if (!text) return { raw, value: null, method: 'invalid' };
+    const candidates = getCandidates(prompt);
+
+    const equal = candidates.filter(c => c.text === text);
+    const equalCategory = pickUnique(equal);
+    if (equalCategory) return { raw, value: equalCategory, method: equal.every(c => c.isSynonym) ? 'synonym' : 'normalized' };
+
+    // "warm tones" or "I would say warm" name exactly one category among other words; "not warm" names none.
+    const contained = candidates.filter(c => containsWords(text, c.text));
+    const containedCategory = pickUnique(contained);
+    if (containedCategory) return { raw, value: containedCategory, method: 'contains' };
+
+    let best: { category: string, distance: number }[] = [];
+    let bestDistance = Infinity;
+    candidates.forEach(c => {
+        const distance = editDistance(text, c.text);
+        if (distance > Math.max(1, Math.floor(c.text.length * MAX_EDIT_RATIO))) return;
+        if (distance < bestDistance) { bestDistance = distance; best = []; }
+        if (distance === bestDistance) best.push({ category: c.category, distance });
+    });
+    const fuzzyCategory = pickUnique(best);
+    if (fuzzyCategory) return { raw, value: fuzzyCategory, method: 'fuzzy' };
+
+    return { raw, value: null, method: 'invalid' };
+};
+
+// Unset follows the retry policy's setting for unparseable answers.
+export const shouldReaskInvalidCategory = (prompt: Prompt, policy: RetryPolicy): boolean =>
+    prompt.invalidCategoryPolicy ? prompt.invalidCategoryPolicy === 'reask' : policy.retryMalformed;
+
+export const describeCategoryMatching = (prompt: Prompt): string =>
+    JSON.stringify([prompt.categorySynonyms || {}, prompt.invalidCategoryPolicy || 'default']);
+
+export const getInvalidCategoryError = (prompt: Prompt, raw: string): string =>
+    `"${raw.length > 100 ? `${raw.substring(0, 100)}...` : raw}" is not one of the allowed categories: ${JSON.stringify(prompt.categories || [])}.`;
+
+// Answers a Multi-Category prompt may give when nothing applies.
+const NONE_ANSWERS = ['none', 'nothing', 'no categories', 'n a', 'empty'];
+
+// A JSON array, or a list separated by commas, semicolons or lines.
+export const parseCategoryList = (content: string): string[] => {
+    const cleaned = content.replace(/```json\n?|```/g, '').trim();
+    try {
+        const parsed = JSON.parse(cleaned);
+        if (Array.isArray(parsed)) return parsed.map(item => String(item).trim()).filter(Boolean);
+    } catch { /* Not JSON, read it as a plain list */ }
+    if (NONE_ANSWERS.includes(normalizeCategoryText(cleaned))) return [];
+    return cleaned.replace(/^\[|\]$/g, '').split(/[,;\n]/)
+        .map(item => item.replace(/^\s*([-*•]|\d+[.)])\s*/, '').replace(/^["'*\s]+|["'*.\s]+$/g, ''))
+        .filter(Boolean);
+};
+
+// Each selection mapped onto the allowed categories like a single Category answer; unmatched ones are kept as written.
+export const matchCategoryList = (prompt: Prompt, answer: string): string[] =>
+    [...new Set(parseCategoryList(answer).map(item => matchCategory(prompt, item)).map(match => match.value ?? match.raw))];
+
+export const isAllowedCategory = (prompt: Prompt, value: string): boolean => (prompt.categories || []).includes(value);
+
+export const describeSelectionLimits = (prompt: Prompt): string | undefined => {
+    const { minSelections: min, maxSelections: max } = prompt;
+    if (min !== undefined && max !== undefined) return min === max ? `exactly ${min}` : `between ${min} and ${max}`;
+    if (min !== undefined) return `at least ${min}`;
+    if (max !== undefined) return `at most ${max}`;
+    return undefined;
+};
+
+// Selections outside the categories or the min/max limits, as one message for re-asking and the result card.
+export const getSelectionError = (prompt: Prompt, selections: string[]): string | null => {
+    const invalid = selections.filter(s => !isAllowedCategory(prompt, s));
+    if (invalid.length > 0) return `${invalid.map(s => JSON.stringify(s)).join(', ')} ${invalid.length > 1 ? 'are' : 'is'} not among the allowed categories: ${JSON.stringify(prompt.categories || [])}.`;
+    const { minSelections: min, maxSelections: max } = prompt;
+    if ((min !== undefined && selections.length < min) || (max !== undefined && selections.length > max)) {
+        return `${selections.length} categor${selections.length === 1 ? 'y was' : 'ies were'} selected; select ${describeSelectionLimits(prompt)}.`;
+    }
+    return null;
+};
+
+// Children of Multi-Category prompts run when the answer contains any or all of their categories.
+export const isCategoryConditionMet = (child: Prompt, selections: string[]): boolean => {
+    const wanted = child.categoryConditionValues || [];
+    if (wanted.length === 0) return false;
+    return child.categoryConditionOperator === 'all'
+        ? wanted.every(c => selections.includes(c))
+        : wanted.some(c => selections.includes(c));
+};
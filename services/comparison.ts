@@ -0,0 +1,164 @@
+import { type AnalysisResult, type BoundingBox, type ComparisonRun, type Prompt, ResultType } from '../types';
+import { intersectionOverUnion } from './tiling';
+import { getYesNoAnswer } from './yesNo';
+
+export interface DiffPart {
+    kind: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+export interface AgreementSummary {
+    matrix: (number | undefined)[][]; // Mean pairwise agreement, indexed like run.profiles
+    perPrompt: { promptId: string, agreement?: number, comparisons: number }[];
+}
+
+// Word-level LCS gets quadratic; longer answer pairs are shown as a plain replacement.
+const MAX_DIFF_CELLS = 4_000_000;
+// Boxes from two models count as the same object above this overlap.
+const BOX_MATCH_IOU = 0.5;
+
+const tokenize = (text: string): string[] => text.split(/(\s+)/).filter(token => token.length > 0);
+const isWord = (token: string) => /\S/.test(token);
+
+export const diffWords = (before: string, after: string): DiffPart[] => {
+    const a = tokenize(before), b = tokenize(after);
+    if (a.length * b.length > MAX_DIFF_CELLS) {
+        return [{ kind: 'removed', text: before }, { kind: 'added', text: after }];
+    }
+    // lengths[i][j] = LCS length of a[i..] and b[j..]
+    const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const parts: DiffPart[] = [];
+    const push = (kind: DiffPart['kind'], text: string) => {
+        const last = parts[parts.length - 1];
+        if (last && last.kind === kind) last.text += text;
+        else parts.push({ kind, text });
+    };
+    let i = 0, j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) { push('same', a[i]); i++; j++; }
+        else if (lengths[i + 1][j] >= lengths[i][j + 1]) push('removed', a[i++]);
+        else push('added', b[j++]);
+    }
+    while (i < a.length) push('removed', a[i++]);
+    while (j < b.length) push('added', b[j++]);
+    return parts;
+};
+
+// Share of words the two answers have in common, in order (Dice coefficient over the word-level LCS).
+const textSimilarity = (a: string, b: string): number => {
+    const parts = diffWords(a, b);
+    const count = (kind: DiffPart['kind']) => parts.filter(p => p.kind === kind).reduce((acc, p) => acc + tokenize(p.text).filter(isWord).length, 0);
+    const same = count('same');
+    const total = 2 * same + count('added') + count('removed');
+    return total === 0 ? 1 : (2 * same) / total;
+};
+
+// Greedy one-to-one matching of same-label boxes; both models finding nothing counts as agreement.
+const boxAgreement = (a: BoundingBox[], b: BoundingBox[]): number => {
+    if (a.length === 0 && b.length === 0) return 1;
+    const unmatched = [...b];
+    let matches = 0;
+    for (const box of a) {
+        let bestIndex = -1, bestIou = BOX_MATCH_IOU;
+        unmatched.forEach((candidate, index) => {
+            if (String(candidate.label).trim().toLowerCase() !== String(box.label).trim().toLowerCase()) return;
+            const iou = intersectionOverUnion(box.box, candidate.box);
+            if (iou >= bestIou) { bestIou = iou; bestIndex = index; }
+        });
+        if (bestIndex >= 0) { matches++; unmatched.splice(bestIndex, 1); }
+    }
+    return (2 * matches) / (a.length + b.length);
+};
+
+const canonicalJson = (value: any): string => {
+    if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+};
+
+export const normalizeCategory = (value: string): string => value.trim().toLowerCase().replace(/^["']|["'.]$/g, '');
+
+// 1 means the answers agree completely, 0 not at all. Undefined when either side has no answer.
+export const answerAgreement = (prompt: Prompt, a: AnalysisResult | undefined, b: AnalysisResult | undefined): number | undefined => {
+    if (a?.status !== 'success' || b?.status !== 'success') return undefined;
+    switch (prompt.type) {
+        case ResultType.Text:
+            return textSimilarity(String(a.data ?? ''), String(b.data ?? ''));
+        case ResultType.YesNo:
+            return getYesNoAnswer(a) === getYesNoAnswer(b) ? 1 : 0;
+        case ResultType.Category:
+            return normalizeCategory(String(a.data)) === normalizeCategory(String(b.data)) ? 1 : 0;
+        case ResultType.Score: {
+            const [min, max] = prompt.scoreRange || [0, 10];
+            return Math.max(0, 1 - Math.abs(a.data - b.data) / Math.max(1e-9, max - min));
+        }
+        case ResultType.Number: {
+            const scale = Math.max(Math.abs(a.data), Math.abs(b.data));
+            return scale === 0 ? 1 : Math.max(0, 1 - Math.abs(a.data - b.data) / scale);
+        }
+        case ResultType.BoundingBox:
+            return boxAgreement(a.data || [], b.data || []);
+        case ResultType.MultiCategory: {
+            // Jaccard index of the selected categories; two empty selections agree.
+            const first = new Set<string>(a.data || []);
+            const second = new Set<string>(b.data || []);
+            const union = new Set([...first, ...second]).size;
+            return union === 0 ? 1 : [...first].filter(c => second.has(c)).length / union;
+        }
+        default:
+            return canonicalJson(a.data) === canonicalJson(b.data) ? 1 : 0;
+    }
+};
+
+const mean = (values: number[]): number | undefined => values.length > 0 ? values.reduce((acc, v) => acc + v, 0) / values.length : undefined;
+
+export const summarizeAgreement = (run: ComparisonRun, prompts: Prompt[]): AgreementSummary => {
+    const profileIds = run.profiles.map(p => p.id);
+    const pairScores = profileIds.map(() => profileIds.map(() => [] as number[]));
+    const promptScores = new Map<string, number[]>();
+
+    for (const imageId of run.imageIds) {
+        for (const prompt of prompts.filter(p => run.promptIds.includes(p.id))) {
+            const byProfile = run.results[imageId]?.[prompt.id] || {};
+            profileIds.forEach((first, i) => profileIds.forEach((second, j) => {
+                if (j <= i) return;
+                const score = answerAgreement(prompt, byProfile[first], byProfile[second]);
+                if (score === undefined) return;
+                pairScores[i][j].push(score);
+                pairScores[j][i].push(score);
+                promptScores.set(prompt.id, [...(promptScores.get(prompt.id) || []), score]);
+            }));
+        }
+    }
+
+    return {
+        matrix: pairScores.map((row, i) => row.map((scores, j) => i === j ? 1 : mean(scores))),
+        perPrompt: run.promptIds.map(promptId => ({
+            promptId,
+            agreement: mean(promptScores.get(promptId) || []),
+            comparisons: promptScores.get(promptId)?.length || 0,
+        })),
+    };
+};
+
+export const formatAgreement = (value: number | undefined): string => value === undefined ? '–' : `${Math.round(value * 100)}%`;
+
+// One style per compared profile, used for its boxes on the image and its column legend.
+export const PROFILE_BOX_STYLES: { color: string, borderStyle: 'solid' | 'dashed' | 'dotted' }[] = [
+    { color: '#f43f5e', borderStyle: 'solid' },
+    { color: '#3b82f6', borderStyle: 'dashed' },
+    { color: '#22c55e', borderStyle: 'dotted' },
+    { color: '#eab308', borderStyle: 'dashed' },
+    { color: '#a855f7', borderStyle: 'dotted' },
+    { color: '#ec4899', borderStyle: 'solid' },
+];
+
+export const getProfileBoxStyle = (index: number) => PROFILE_BOX_STYLES[index % PROFILE_BOX_STYLES.length];
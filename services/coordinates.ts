@@ -0,0 +1,120 @@
+import { type BoundingBox, type BoxFormatReport, type BoxOrder, type BoxScale, type CoordinateFormat } from '../types';
+
+type Quad = [number, number, number, number];
+
+interface ImageSize {
+    width?: number;
+    height?: number;
+}
+
+interface RawBox {
+    label: string;
+    coords: Quad;
+}
+
+export const DEFAULT_COORDINATE_FORMAT: CoordinateFormat = { order: 'auto', scale: 'auto' };
+
+export const BOX_ORDER_LABELS: Record<BoxOrder, string> = {
+    xyxy: '[x1, y1, x2, y2]',
+    yxyx: '[y1, x1, y2, x2]',
+    xywh: '[x, y, width, height]',
+};
+
+export const BOX_SCALE_LABELS: Record<BoxScale, string> = {
+    normalized_1000: '0–1000',
+    normalized_1: '0–1',
+    pixels: 'pixels',
+};
+
+// Coordinates may spill slightly over the edge without the convention being wrong.
+const EDGE_TOLERANCE = 10;
+
+export const describeCoordinateFormat = (format: CoordinateFormat = DEFAULT_COORDINATE_FORMAT): string => `${format.order}|${format.scale}`;
+
+// Models name the coordinate key differently (Gemini uses "box_2d").
+const readRawBoxes = (data: unknown): { boxes: RawBox[], skipped: number } => {
+    const boxes: RawBox[] = [];
+    let skipped = 0;
+    (Array.isArray(data) ? data : []).forEach(item => {
+        const coords = item?.box ?? item?.box_2d ?? item?.bbox;
+        if (Array.isArray(coords) && coords.length === 4 && coords.every(c => typeof c === 'number' && isFinite(c))) {
+            boxes.push({ label: String(item.label ?? ''), coords: coords as Quad });
+        } else {
+            skipped++;
+        }
+    });
+    return { boxes, skipped };
+};
+
+const guessScale = (boxes: RawBox[], size: ImageSize): BoxScale => {
+    const values = boxes.flatMap(b => b.coords);
+    if (values.length === 0) return 'normalized_1000';
+    const max = Math.max(...values);
+    if (max <= 1 && values.some(v => !Number.isInteger(v))) return 'normalized_1';
+    if (max > 1000 + EDGE_TOLERANCE && size.width && size.height) return 'pixels';
+    return 'normalized_1000';
+};
+
+const guessOrder = (boxes: RawBox[], modelName?: string): BoxOrder => {
+    // A second corner above or left of the first usually means it is a width and height.
+    const inverted = boxes.filter(({ coords: [a, b, c, d] }) => c <= a || d <= b).length;
+    if (inverted > 0 && inverted >= boxes.length / 2) return 'xywh';
+    // Geometry cannot tell xyxy from yxyx; Gemini models are trained on the latter.
+    return modelName && /gemini/i.test(modelName) ? 'yxyx' : 'xyxy';
+};
+
+const toCanvas = ([a, b, c, d]: Quad, order: BoxOrder, scale: BoxScale, size: ImageSize): Quad => {
+    const [x1, y1, x2, y2] = order === 'yxyx' ? [b, a, d, c]
+        : order === 'xywh' ? [a, b, a + c, b + d]
+        : [a, b, c, d];
+    const scaleX = scale === 'normalized_1' ? 1000 : scale === 'pixels' ? 1000 / size.width! : 1;
+    const scaleY = scale === 'normalized_1' ? 1000 : scale === 'pixels' ? 1000 / size.height! : 1;
+    return [x1 * scaleX, y1 * scaleY, x2 * scaleX, y2 * scaleY];
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 'es'}`;
+
+// Converts a parsed Bounding Box answer into [x1, y1, x2, y2] boxes on the 1000x1000 canvas.
+// `size` is the pixel size of the image the model received; it is only needed for pixel coordinates.
+export const normalizeBoxes = (
+    data: unknown,
+    format: CoordinateFormat = DEFAULT_COORDINATE_FORMAT,
+    size: ImageSize = {},
+    modelName?: string,
+): { boxes: BoundingBox[], report: BoxFormatReport } => {
+    const { boxes: raw, skipped } = readRawBoxes(data);
+    const warnings: string[] = [];
+    if (!Array.isArray(data)) warnings.push('The answer is not a JSON array of boxes.');
+    if (skipped > 0) warnings.push(`Ignored ${skipped} item(s) without four numeric coordinates.`);
+
+    const guessedScale = guessScale(raw, size);
+    let scale = format.scale === 'auto' ? guessedScale : format.scale;
+    const order = format.order === 'auto' ? guessOrder(raw, modelName) : format.order;
+    if (raw.length > 0 && format.scale !== 'auto' && guessedScale !== format.scale) {
+        warnings.push(`Coordinates look like ${BOX_SCALE_LABELS[guessedScale]} values, but ${BOX_SCALE_LABELS[format.scale]} is configured.`);
+    }
+    if (scale === 'pixels' && !(size.width && size.height)) {
+        warnings.push('Pixel coordinates need the image size, which is unknown; reading them as 0–1000.');
+        scale = 'normalized_1000';
+    }
+
+    let swapped = 0, outside = 0, empty = 0;
+    const boxes: BoundingBox[] = [];
+    raw.forEach(({ label, coords }) => {
+        const [x1, y1, x2, y2] = toCanvas(coords, order, scale, size);
+        if (x2 < x1 || y2 < y1) swapped++;
+        if ([x1, y1, x2, y2].some(v => v < -EDGE_TOLERANCE || v > 1000 + EDGE_TOLERANCE)) outside++;
+        const clamp = (v: number) => Math.round(Math.max(0, Math.min(1000, v)));
+        const box: Quad = [clamp(Math.min(x1, x2)), clamp(Math.min(y1, y2)), clamp(Math.max(x1, x2)), clamp(Math.max(y1, y2))];
+        if (box[0] >= box[2] || box[1] >= box[3]) {
+            empty++;
+            return;
+        }
+        boxes.push({ label, box });
+    });
+    if (swapped > 0) warnings.push(`Found ${plural(swapped, 'box')} with corners in the wrong order; the coordinate order may be wrong.`);
+    if (outside > 0) warnings.push(`Clipped ${plural(outside, 'box')} reaching past the image edge; the coordinate scale may be wrong.`);
+    if (empty > 0) warnings.push(`Dropped ${plural(empty, 'box')} with no area.`);
+
+    return { boxes, report: { order, scale, autoDetected: format.order === 'auto' || format.scale === 'auto', warnings } };
+};
@@ -0,0 +1,177 @@
+import { type ApiConfig } from '../types';
+import { getProvider, type ChatMessage, type ProviderAdapter } from './providers';
+import { readProviderStream, splitReasoning } from './api';
+import { formatDuration } from './metrics';
+
+export interface DiagnosticCheck {
+    label: string;
+    status: 'ok' | 'warning' | 'error' | 'skipped';
+    message: string;
+    latencyMs?: number;
+}
+
+export interface ConnectionReport {
+    models: string[];
+    checks: DiagnosticCheck[];
+}
+
+// Generous, because reasoning models may think for a while before answering the probe.
+const PROBE_TIMEOUT_MS = 60000;
+
+class ProbeError extends Error {
+    unreachable: boolean; // Nothing answered at all, so further requests are pointless
+
+    constructor(message: string, unreachable = false) {
+        super(message);
+        this.name = 'ProbeError';
+        this.unreachable = unreachable;
+    }
+}
+
+// A solid red square: a vision model can name the colour, a text-only model can only guess.
+const createProbeImage = (): string => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 64;
+    canvas.height = 64;
+    const context = canvas.getContext('2d')!;
+    context.fillStyle = '#ff0000';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+};
+
+const describeHttpError = async (response: Response): Promise<string> => {
+    if (response.status === 401 || response.status === 403) return `Authentication failed (HTTP ${response.status}). Check the API key.`;
+    if (response.status === 404) return 'Not found (HTTP 404). Check the endpoint path and the model name.';
+    const body = (await response.text().catch(() => '')).trim();
+    return `HTTP ${response.status}${body ? `: ${body.substring(0, 200)}` : ''}`;
+};
+
+// fetch() rejects with a bare TypeError for refused connections, DNS failures and CORS blocks alike.
+const sendProbe = async <T>(url: string, init: RequestInit, read: (response: Response) => Promise<T>): Promise<{ value: T, latencyMs: number }> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+    const startedAt = performance.now();
+    try {
+        const response = await fetch(url, { ...init, signal: controller.signal });
+        if (!response.ok) throw new ProbeError(await describeHttpError(response));
+        const value = await read(response);
+        return { value, latencyMs: performance.now() - startedAt };
+    } catch (error) {
+        if (error instanceof ProbeError) throw error;
+        if ((error as Error).name === 'AbortError') throw new ProbeError(`No answer within ${PROBE_TIMEOUT_MS / 1000}s.`);
+        if (error instanceof TypeError) {
+            throw new ProbeError(`Could not reach the server (${error.message}). Either nothing is listening at this address, or the server does not allow requests from this page (CORS): start Ollama with OLLAMA_ORIGINS set, or enable CORS in LM Studio.`, true);
+        }
+        throw new ProbeError((error as Error).message);
+    } finally {
+        clearTimeout(timer);
+    }
+};
+
+const postChat = (adapter: ProviderAdapter, config: ApiConfig, messages: ChatMessage[], stream: boolean) => {
+    const request = adapter.buildRequest(messages, config, { stream });
+    return { url: request.url, init: { method: 'POST', headers: request.headers, body: JSON.stringify(request.body) } };
+};
+
+const checkModels = async (adapter: ProviderAdapter, config: ApiConfig): Promise<{ check: DiagnosticCheck, models: string[] }> => {
+    const label = 'Model list';
+    let url: string, headers: Record<string, string>;
+    try {
+        ({ url, headers } = adapter.buildModelsRequest(config));
+    } catch {
+        throw new ProbeError(`"${config.apiEndpoint}" is not a valid URL.`, true);
+    }
+    try {
+        const { value: models, latencyMs } = await sendProbe(url, { headers }, async response => adapter.parseModels(await response.json()));
+        if (models.length === 0) return { models, check: { label, status: 'warning', message: 'The server listed no models.', latencyMs } };
+        const listed = models.includes(config.modelName);
+        return {
+            models,
+            check: {
+                label,
+                status: listed ? 'ok' : 'warning',
+                message: listed
+                    ? `${models.length} model${models.length === 1 ? '' : 's'} available, including "${config.modelName}".`
+                    : `${models.length} model${models.length === 1 ? '' : 's'} available, but "${config.modelName}" is not one of them.`,
+                latencyMs,
+            },
+        };
+    } catch (error) {
+        // Some servers have no model listing route; that alone does not break analysis.
+        if (error instanceof ProbeError && !error.unreachable && !/^Authentication/.test(error.message)) {
+            return { models: [], check: { label, status: 'warning', message: `Could not list models: ${error.message}` } };
+        }
+        throw error;
+    }
+};
+
+const checkVision = async (adapter: ProviderAdapter, config: ApiConfig): Promise<DiagnosticCheck> => {
+    const label = 'Vision probe';
+    const { url, init } = postChat(adapter, config, [{ role: 'user', text: 'What colour is this image? Answer with one word.', images: [createProbeImage()] }], false);
+    try {
+        const { value: answer, latencyMs } = await sendProbe(url, init, async response => {
+            const parsed = adapter.parseResponse(await response.json());
+            return splitReasoning(parsed.content, parsed.reasoning).content;
+        });
+        const shortAnswer = answer.length > 80 ? `${answer.substring(0, 80)}...` : answer;
+        return /red/i.test(answer)
+            ? { label, status: 'ok', message: `The model saw the test image ("${shortAnswer}").`, latencyMs }
+            : { label, status: 'warning', message: `The request worked, but the answer "${shortAnswer}" does not name the test image's colour (red). The model may be ignoring images.`, latencyMs };
+    } catch (error) {
+        if ((error as ProbeError).unreachable) throw error;
+        // Text-only models and servers without image support usually reject the image part outright.
+        return { label, status: 'error', message: `Request with an image failed: ${(error as Error).message}` };
+    }
+};
+
+const checkStreaming = async (adapter: ProviderAdapter, config: ApiConfig): Promise<DiagnosticCheck> => {
+    const label = 'Streaming';
+    const { url, init } = postChat(adapter, config, [{ role: 'user', text: 'Reply with the word OK.' }], true);
+    try {
+        const startedAt = performance.now();
+        let firstChunkMs: number | undefined;
+        const { value: chunks, latencyMs } = await sendProbe(url, init, async response => {
+            let count = 0;
+            for await (const event of readProviderStream(response, adapter)) {
+                if (!event.content && !event.reasoning) continue;
+                if (firstChunkMs === undefined) firstChunkMs = performance.now() - startedAt;
+                count++;
+            }
+            return count;
+        });
+        return chunks > 0
+            ? { label, status: 'ok', message: `Received ${chunks} chunk${chunks === 1 ? '' : 's'}, the first after ${formatDuration(firstChunkMs!)}.`, latencyMs }
+            : { label, status: 'warning', message: 'The stream ended without any content. Text prompts may come back empty.', latencyMs };
+    } catch (error) {
+        if ((error as ProbeError).unreachable) throw error;
+        return { label, status: 'error', message: `Streaming request failed: ${(error as Error).message}` };
+    }
+};
+
+// Runs the checks in order. A check that throws means later ones cannot succeed either
+// (unreachable server, bad URL, rejected credentials), so they are skipped.
+export const testConnection = async (config: ApiConfig): Promise<ConnectionReport> => {
+    const adapter = getProvider(config.provider);
+    const checks: DiagnosticCheck[] = [];
+    let models: string[] = [];
+    const steps: { label: string, run: () => Promise<DiagnosticCheck> }[] = [
+        { label: 'Model list', run: async () => { const result = await checkModels(adapter, config); models = result.models; return result.check; } },
+        { label: 'Vision probe', run: () => checkVision(adapter, config) },
+        { label: 'Streaming', run: () => checkStreaming(adapter, config) },
+    ];
+
+    let failed = false;
+    for (const step of steps) {
+        if (failed) {
+            checks.push({ label: step.label, status: 'skipped', message: 'Skipped after the previous error.' });
+            continue;
+        }
+        try {
+            checks.push(await step.run());
+        } catch (error) {
+            failed = true;
+            checks.push({ label: step.label, status: 'error', message: (error as Error).message });
+        }
+    }
+    return { models, checks };
+};
@@ -0,0 +1,147 @@
+import { type SchemaViolation } from '../types';
+
+// The subset of JSON Schema that local validation understands. Other keywords are ignored.
+type Schema = {
+    type?: string | string[];
+    properties?: Record<string, Schema>;
+    required?: string[];
+    additionalProperties?: boolean | Schema;
+    items?: Schema;
+    enum?: unknown[];
+    const?: unknown;
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: number;
+    exclusiveMaximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    minItems?: number;
+    maxItems?: number;
+    anyOf?: Schema[];
+    oneOf?: Schema[];
+    allOf?: Schema[];
+    $ref?: string;
+} | boolean;
+
+// Validation stops after this many, so a wrong array of objects doesn't flood the card.
+const MAX_VIOLATIONS = 50;
+
+const typeOf = (value: unknown): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+    if (type === 'integer') return Number.isInteger(value);
+    if (type === 'number') return typeof value === 'number' && Number.isFinite(value);
+    return typeOf(value) === type;
+};
+
+const isEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+// JSON Pointer, e.g. "/items/0/name". The root is "".
+export const joinPointer = (path: string, key: string | number): string =>
+    `${path}/${String(key).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+
+// Local references only: "#/definitions/..." and "#/$defs/...".
+const resolveRef = (root: Schema, ref: string): Schema | undefined => {
+    if (!ref.startsWith('#')) return undefined;
+    return ref.substring(1).split('/').filter(Boolean).reduce<any>((node, key) =>
+        node?.[key.replace(/~1/g, '/').replace(/~0/g, '~')], root);
+};
+
+const formatValue = (value: unknown): string => {
+    const text = JSON.stringify(value);
+    return text.length > 40 ? `${text.substring(0, 40)}...` : text;
+};
+
+const validateNode = (value: unknown, schema: Schema, root: Schema, path: string, violations: SchemaViolation[], depth: number): void => {
+    if (schema === true || violations.length >= MAX_VIOLATIONS) return;
+    if (schema === false) { violations.push({ path, message: 'No value is allowed here.' }); return; }
+    if (schema.$ref) {
+        const target = depth < 32 ? resolveRef(root, schema.$ref) : undefined;
+        if (target !== undefined) validateNode(value, target, root, path, violations, depth + 1);
+        return;
+    }
+
+    if (schema.type) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some(type => matchesType(value, type))) {
+            violations.push({ path, message: `Expected ${types.join(' or ')}, got ${typeOf(value)}.` });
+            return;
+        }
+    }
+    if (schema.enum && !schema.enum.some(option => isEqual(option, value))) {
+        violations.push({ path, message: `${formatValue(value)} is not one of ${schema.enum.map(formatValue).join(', ')}.` });
+    }
+    if (schema.const !== undefined && !isEqual(schema.const, value)) {
+        violations.push({ path, message: `Must be ${formatValue(schema.const)}.` });
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) violations.push({ path, message: `${value} is below the minimum of ${schema.minimum}.` });
+        if (schema.maximum !== undefined && value > schema.maximum) violations.push({ path, message: `${value} is above the maximum of ${schema.maximum}.` });
+        if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) violations.push({ path, message: `${value} must be greater than ${schema.exclusiveMinimum}.` });
+        if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) violations.push({ path, message: `${value} must be less than ${schema.exclusiveMaximum}.` });
+    }
+    if (typeof value === 'string') {
+        const length = [...value].length;
+        if (schema.minLength !== undefined && length < schema.minLength) violations.push({ path, message: `Shorter than ${schema.minLength} characters.` });
+        if (schema.maxLength !== undefined && length > schema.maxLength) violations.push({ path, message: `Longer than ${schema.maxLength} characters.` });
+        if (schema.pattern) {
+            try {
+                if (!new RegExp(schema.pattern, 'u').test(value)) violations.push({ path, message: `Does not match the pattern ${schema.pattern}.` });
+            } catch { /* An invalid pattern cannot be checked */ }
+        }
+    }
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) violations.push({ path, message: `Has ${value.length} items, at least ${schema.minItems} required.` });
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) violations.push({ path, message: `Has ${value.length} items, at most ${schema.maxItems} allowed.` });
+        if (schema.items !== undefined) value.forEach((item, index) => validateNode(item, schema.items!, root, joinPointer(path, index), violations, depth));
+    }
+    if (typeOf(value) === 'object') {
+        const object = value as Record<string, unknown>;
+        (schema.required || []).forEach(key => {
+            if (!(key in object)) violations.push({ path, message: `Missing required property "${key}".` });
+        });
+        Object.entries(object).forEach(([key, child]) => {
+            const propertySchema = schema.properties?.[key];
+            if (propertySchema !== undefined) validateNode(child, propertySchema, root, joinPointer(path, key), violations, depth);
+            else if (schema.additionalProperties === false) violations.push({ path: joinPointer(path, key), message: `Property "${key}" is not allowed.` });
+            else if (typeof schema.additionalProperties === 'object') validateNode(child, schema.additionalProperties, root, joinPointer(path, key), violations, depth);
+        });
+    }
+
+    (schema.allOf || []).forEach(sub => validateNode(value, sub, root, path, violations, depth));
+    const matching = (options: Schema[]) => options.filter(sub => validateJson(value, sub, root).length === 0).length;
+    if (schema.anyOf && matching(schema.anyOf) === 0) violations.push({ path, message: 'Matches none of the allowed shapes (anyOf).' });
+    if (schema.oneOf) {
+        const count = matching(schema.oneOf);
+        if (count !== 1) violations.push({ path, message: count === 0 ? 'Matches none of the allowed shapes (oneOf).' : `Matches ${count} shapes where exactly one is allowed (oneOf).` });
+    }
+};
+
+// Checks a parsed answer against the prompt's schema. `root` resolves $ref inside nested schemas.
+export const validateJson = (value: unknown, schema: unknown, root: unknown = schema): SchemaViolation[] => {
+    const violations: SchemaViolation[] = [];
+    if (typeof schema === 'boolean' || (typeof schema === 'object' && schema !== null)) {
+        validateNode(value, schema as Schema, root as Schema, '', violations, 0);
+    }
+    return violations;
+};
+
+// The violations as one error message, for retries and failed results.
+export const formatViolations = (violations: SchemaViolation[]): string =>
+    `The JSON does not match the schema: ${violations.slice(0, 10).map(v => `${v.path || '(root)'}: ${v.message}`).join(' ')}${violations.length > 10 ? ` (and ${violations.length - 10} more)` : ''}`;
+
+// Schemas that are valid JSON but not usable as a schema, for the settings editor.
+export const checkSchema = (schema: unknown): string | null => {
+    if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) return 'The schema must be a JSON object.';
+    const type = (schema as { type?: unknown }).type;
+    const types = Array.isArray(type) ? type : type === undefined ? [] : [type];
+    const known = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+    const unknown = types.find(t => typeof t !== 'string' || !known.includes(t));
+    return unknown === undefined ? null : `Unknown type ${JSON.stringify(unknown)}.`;
+};
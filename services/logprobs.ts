@@ -0,0 +1,56 @@
+import { type Prompt, ResultType } from '../types';
+import { type TokenLogprob } from './providers';
+
+// Alternatives requested per token. The allowed answers rarely have more plausible first tokens than this.
+export const TOP_LOGPROBS = 10;
+
+export const LOGPROB_TYPES: ResultType[] = [ResultType.YesNo, ResultType.Category];
+
+const getAllowedAnswers = (prompt: Prompt): string[] =>
+    prompt.type === ResultType.YesNo ? ['yes', 'no'] : (prompt.categories || []).filter(c => c.trim());
+
+// Tokens carry their leading space and sometimes an opening quote or markdown emphasis.
+const normalizeToken = (token: string) => token.toLowerCase().replace(/^[\s"'`*]+/, '').trimEnd();
+
+// Answers a token could be the start of, e.g. "Ye" for "yes" or "yes." for "yes".
+const matchAnswers = (token: string, answers: string[]): number[] => {
+    const text = normalizeToken(token);
+    if (!text) return [];
+    return answers.flatMap((answer, index) => {
+        const key = answer.trim().toLowerCase();
+        return key.startsWith(text) || text.startsWith(key) ? [index] : [];
+    });
+};
+
+// Probability of each allowed answer, read from the alternatives at the answer's first token and normalized
+// over the alternatives that start an allowed answer. An alternative starting several answers ("ca" for "cat"
+// and "car") is split evenly between them. Undefined when the answer does not start with an allowed answer.
+export const getAnswerProbabilities = (prompt: Prompt, logprobs: TokenLogprob[] | undefined): Record<string, number> | undefined => {
+    const answers = getAllowedAnswers(prompt);
+    if (!logprobs || answers.length < 2) return undefined;
+
+    // Inline reasoning comes first; the answer starts after its closing tag.
+    const thinkEnd = logprobs.map(entry => entry.token.includes('</think>')).lastIndexOf(true);
+    const position = logprobs.slice(thinkEnd + 1).find(entry => normalizeToken(entry.token));
+    if (!position || matchAnswers(position.token, answers).length === 0) return undefined;
+
+    const alternatives = position.top.some(alt => alt.token === position.token)
+        ? position.top
+        : [...position.top, { token: position.token, logprob: position.logprob }];
+    const mass = answers.map(() => 0);
+    for (const alt of alternatives) {
+        const matches = matchAnswers(alt.token, answers);
+        matches.forEach(index => { mass[index] += Math.exp(alt.logprob) / matches.length; });
+    }
+    const total = mass.reduce((acc, p) => acc + p, 0);
+    if (!(total > 0)) return undefined;
+    return Object.fromEntries(answers.map((answer, index) => [answer, mass[index] / total]));
+};
+
+// Sampled prompts report the mean over the samples that had probabilities.
+export const averageProbabilities = (list: (Record<string, number> | undefined)[]): Record<string, number> | undefined => {
+    const present = list.filter((p): p is Record<string, number> => !!p);
+    if (present.length === 0) return undefined;
+    const keys = Object.keys(present[0]);
+    return Object.fromEntries(keys.map(key => [key, present.reduce((acc, p) => acc + (p[key] || 0), 0) / present.length]));
+};
@@ -0,0 +1,97 @@
+import { type AnalysisResult, type BboxChildResult, type RequestMetrics, type TokenUsage } from '../types';
+
+export interface MetricsTotals {
+    requests: number;
+    promptTokens: number;
+    completionTokens: number;
+    reasoningTokens: number;
+    latencyMs: number;
+    tokensPerSecond?: number;
+}
+
+// Rough count for servers that return reasoning text but no reasoning token count.
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Timestamps are performance.now() values taken when the request was sent and when the first content arrived.
+export const buildRequestMetrics = (usage: TokenUsage | undefined, startedAt: number, firstTokenAt?: number, reasoning?: string): RequestMetrics => {
+    const finishedAt = performance.now();
+    const latencyMs = finishedAt - startedAt;
+    const generationMs = firstTokenAt !== undefined ? finishedAt - firstTokenAt : latencyMs;
+    const completionTokens = usage?.completionTokens;
+    const reasoningTokensEstimated = usage?.reasoningTokens === undefined && !!reasoning;
+    return {
+        promptTokens: usage?.promptTokens,
+        completionTokens,
+        reasoningTokens: reasoningTokensEstimated ? estimateTokens(reasoning!) : usage?.reasoningTokens,
+        reasoningTokensEstimated: reasoningTokensEstimated || undefined,
+        latencyMs,
+        timeToFirstTokenMs: firstTokenAt !== undefined ? firstTokenAt - startedAt : undefined,
+        tokensPerSecond: completionTokens && generationMs > 0 ? completionTokens / (generationMs / 1000) : undefined,
+    };
+};
+
+// Providers report usage piecemeal while streaming (e.g. Anthropic sends input and output tokens in separate events).
+export const mergeUsage = (current: TokenUsage | undefined, update: TokenUsage): TokenUsage => ({
+    promptTokens: update.promptTokens ?? current?.promptTokens,
+    completionTokens: update.completionTokens ?? current?.completionTokens,
+    reasoningTokens: update.reasoningTokens ?? current?.reasoningTokens,
+});
+
+// Every model call behind a result: the initial request, follow-ups, detection tiles, self-consistency samples and one call per box for bbox children.
+export const getResultMetrics = (result: AnalysisResult): RequestMetrics[] => {
+    const metrics: RequestMetrics[] = [];
+    if (result.metrics) metrics.push(result.metrics);
+    if (result.followUpMetrics) metrics.push(...result.followUpMetrics);
+    result.tiles?.forEach(tile => { if (tile.metrics) metrics.push(tile.metrics); });
+    if (result.sampling?.sampleMetrics) metrics.push(...result.sampling.sampleMetrics);
+    if (Array.isArray(result.data)) {
+        (result.data as BboxChildResult[]).forEach(child => {
+            if (child && child.parentBox && child.metrics) metrics.push(child.metrics);
+        });
+    }
+    return metrics;
+};
+
+export const sumMetrics = (metrics: RequestMetrics[]): MetricsTotals => {
+    const totals = metrics.reduce<MetricsTotals>((acc, m) => ({
+        requests: acc.requests + 1,
+        promptTokens: acc.promptTokens + (m.promptTokens || 0),
+        completionTokens: acc.completionTokens + (m.completionTokens || 0),
+        reasoningTokens: acc.reasoningTokens + (m.reasoningTokens || 0),
+        latencyMs: acc.latencyMs + m.latencyMs,
+    }), { requests: 0, promptTokens: 0, completionTokens: 0, reasoningTokens: 0, latencyMs: 0 });
+
+    // Throughput only counts requests that reported completion tokens.
+    const timed = metrics.filter(m => m.tokensPerSecond && m.completionTokens);
+    const generationSeconds = timed.reduce((acc, m) => acc + m.completionTokens! / m.tokensPerSecond!, 0);
+    const generatedTokens = timed.reduce((acc, m) => acc + m.completionTokens!, 0);
+    return { ...totals, tokensPerSecond: generationSeconds > 0 ? generatedTokens / generationSeconds : undefined };
+};
+
+export const collectImageMetrics = (imageResults: Record<string, AnalysisResult[]> | undefined): RequestMetrics[] =>
+    Object.values(imageResults || {}).flatMap(history => history.flatMap(getResultMetrics));
+
+export const formatDuration = (ms: number): string => ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+export const formatMetrics = (metrics: RequestMetrics): string => {
+    const parts: string[] = [];
+    if (metrics.promptTokens !== undefined || metrics.completionTokens !== undefined) {
+        parts.push(`${metrics.promptTokens ?? '?'} → ${metrics.completionTokens ?? '?'} tok`);
+    }
+    if (metrics.reasoningTokens) parts.push(`${metrics.reasoningTokensEstimated ? '~' : ''}${metrics.reasoningTokens} reasoning`);
+    if (metrics.timeToFirstTokenMs !== undefined) parts.push(`TTFT ${formatDuration(metrics.timeToFirstTokenMs)}`);
+    parts.push(formatDuration(metrics.latencyMs));
+    if (metrics.tokensPerSecond) parts.push(`${metrics.tokensPerSecond.toFixed(1)} tok/s`);
+    return parts.join(' · ');
+};
+
+export const formatTotals = (totals: MetricsTotals): string => {
+    const parts = [
+        `${totals.requests} request${totals.requests === 1 ? '' : 's'}`,
+        `${totals.promptTokens} → ${totals.completionTokens} tok`,
+        formatDuration(totals.latencyMs),
+    ];
+    if (totals.reasoningTokens) parts.splice(2, 0, `${totals.reasoningTokens} reasoning`);
+    if (totals.tokensPerSecond) parts.push(`${totals.tokensPerSecond.toFixed(1)} tok/s`);
+    return parts.join(' · ');
+};
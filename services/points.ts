@@ -0,0 +1,62 @@
+import { type BoundingBox, type KeyPoint } from '../types';
+
+// Side of the square around a point that its child prompts are asked about, on the 1000 grid.
+// The child's crop padding and minimum size apply on top.
+export const POINT_CROP_SIZE = 100;
+
+export const POINTS_RESPONSE_SCHEMA = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            point: { type: 'array', items: { type: 'number' }, minItems: 2, maxItems: 2 },
+            label: { type: 'string' },
+        },
+        required: ['point', 'label'],
+    },
+};
+
+const readPoint = (item: any): [number, number] | undefined => {
+    const value = item?.point ?? item?.position ?? item?.coordinates ?? item;
+    const point = Array.isArray(value) ? [value[0], value[1]] : [value?.x, value?.y];
+    return typeof point[0] === 'number' && typeof point[1] === 'number' ? point as [number, number] : undefined;
+};
+
+// Accepts [{point: [x, y]}], [{x, y}] or bare [x, y] pairs and returns points on the 0-1000 canvas.
+export const normalizePoints = (data: unknown): KeyPoint[] => {
+    const list = Array.isArray(data) ? data : (data as any)?.points ?? (data as any)?.objects;
+    if (!Array.isArray(list)) throw new Error('Expected a JSON array of objects with "point" and "label".');
+
+    const parsed = list.flatMap(item => {
+        const point = readPoint(item);
+        return point ? [{ label: String(item?.label ?? item?.name ?? 'point'), point }] : [];
+    });
+    // Points given on a 0-1 scale despite the instructions.
+    const isUnitScale = parsed.length > 0 && parsed.every(({ point: [x, y] }) => x <= 1 && y <= 1);
+    const toCanvas = (value: number) => Math.round(Math.max(0, Math.min(1000, isUnitScale ? value * 1000 : value)));
+    return parsed.map(p => ({ label: p.label, point: [toCanvas(p.point[0]), toCanvas(p.point[1])] }));
+};
+
+// A square around the point, moved inside the image at the edges.
+export const pointBounds = (keyPoint: KeyPoint): BoundingBox => {
+    const half = POINT_CROP_SIZE / 2;
+    const [x1, y1] = keyPoint.point.map(v => Math.max(0, Math.min(1000 - POINT_CROP_SIZE, v - half)));
+    return { label: keyPoint.label, box: [x1, y1, x1 + POINT_CROP_SIZE, y1 + POINT_CROP_SIZE] };
+};
+
+// Points per label, in order of first appearance.
+export const countPointsByLabel = (points: KeyPoint[]): [string, number][] => {
+    const counts = new Map<string, number>();
+    points.forEach(p => counts.set(p.label, (counts.get(p.label) || 0) + 1));
+    return [...counts];
+};
+
+// Marker numbers: one sequence over all points, or one per label when grouped.
+export const numberPoints = (points: KeyPoint[], groupByLabel: boolean): number[] => {
+    const seen = new Map<string, number>();
+    return points.map((p, index) => {
+        if (!groupByLabel) return index + 1;
+        seen.set(p.label, (seen.get(p.label) || 0) + 1);
+        return seen.get(p.label)!;
+    });
+};
@@ -0,0 +1,88 @@
+import { type BoundingBox, type KeyPoint, type Polygon, type Prompt, ResultType } from '../types';
+import { pointBounds } from './points';
+
+// Prompt types whose objects can each get child prompts.
+export const OBJECT_PARENT_TYPES: ResultType[] = [ResultType.BoundingBox, ResultType.Polygon, ResultType.Points];
+
+export const isObjectParent = (prompt?: Prompt): boolean => !!prompt && OBJECT_PARENT_TYPES.includes(prompt.type);
+
+export const POLYGON_RESPONSE_SCHEMA = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            points: {
+                type: 'array',
+                items: { type: 'array', items: { type: 'number' }, minItems: 2, maxItems: 2 },
+                minItems: 3,
+            },
+            label: { type: 'string' },
+        },
+        required: ['points', 'label'],
+    },
+};
+
+const LABEL_COLORS = ['#f43f5e', '#3b82f6', '#22c55e', '#eab308', '#a855f7', '#ec4899', '#14b8a6', '#f97316'];
+
+// The same label gets the same color in every result and on every image.
+export const getLabelColor = (label: string): string => {
+    let hash = 0;
+    for (const char of label.trim().toLowerCase()) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    return LABEL_COLORS[hash % LABEL_COLORS.length];
+};
+
+const readPoints = (value: unknown): [number, number][] | undefined => {
+    if (!Array.isArray(value)) return undefined;
+    // [[x, y], ...], [{x, y}, ...] or a flat [x1, y1, x2, y2, ...]
+    if (value.every(v => typeof v === 'number')) {
+        if (value.length % 2 !== 0) return undefined;
+        return Array.from({ length: value.length / 2 }, (_, i) => [value[2 * i], value[2 * i + 1]]);
+    }
+    const points = value.map(v => Array.isArray(v) ? [v[0], v[1]] : v && typeof v === 'object' ? [(v as any).x, (v as any).y] : []);
+    return points.every(p => typeof p[0] === 'number' && typeof p[1] === 'number') ? points as [number, number][] : undefined;
+};
+
+// Accepts the answer shapes models tend to produce and returns outlines on the 0-1000 canvas.
+// Outlines with fewer than 3 points are dropped.
+export const normalizePolygons = (data: unknown): Polygon[] => {
+    const list = Array.isArray(data) ? data : (data as any)?.polygons ?? (data as any)?.objects;
+    if (!Array.isArray(list)) throw new Error('Expected a JSON array of objects with "points" and "label".');
+
+    const parsed = list.flatMap(item => {
+        const points = readPoints(item?.points ?? item?.polygon ?? item?.outline ?? item?.coordinates);
+        return points && points.length >= 3 ? [{ label: String(item.label ?? item.name ?? 'object'), points }] : [];
+    });
+    // Outlines given on a 0-1 scale despite the instructions.
+    const isUnitScale = parsed.length > 0 && parsed.every(p => p.points.every(([x, y]) => x <= 1 && y <= 1));
+    const toCanvas = (value: number) => Math.round(Math.max(0, Math.min(1000, isUnitScale ? value * 1000 : value)));
+    return parsed.map(p => ({ label: p.label, points: p.points.map(([x, y]) => [toCanvas(x), toCanvas(y)] as [number, number]) }));
+};
+
+// Shoelace formula, as a fraction of the image area (the canvas is 1000x1000 whatever the aspect ratio).
+export const polygonArea = (points: [number, number][]): number => {
+    let twiceArea = 0;
+    points.forEach(([x1, y1], i) => {
+        const [x2, y2] = points[(i + 1) % points.length];
+        twiceArea += x1 * y2 - x2 * y1;
+    });
+    return Math.abs(twiceArea) / 2 / 1_000_000;
+};
+
+export const polygonBounds = (polygon: Polygon): BoundingBox => {
+    const xs = polygon.points.map(p => p[0]);
+    const ys = polygon.points.map(p => p[1]);
+    return { label: polygon.label, box: [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)] };
+};
+
+// The objects of a Bounding Box, Polygon or Points result, as the boxes their child prompts are asked about.
+export const getParentObjects = (prompt: Prompt, data: unknown): BoundingBox[] => {
+    if (!Array.isArray(data)) return [];
+    switch (prompt.type) {
+        case ResultType.Polygon: return (data as Polygon[]).map(polygonBounds);
+        case ResultType.Points: return (data as KeyPoint[]).map(pointBounds);
+        default: return data as BoundingBox[];
+    }
+};
+
+export const formatArea = (fraction: number): string =>
+    `${fraction * 100 < 1 ? (fraction * 100).toFixed(2) : (fraction * 100).toFixed(1)}%`;
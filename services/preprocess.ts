@@ -0,0 +1,131 @@
+import { type PreprocessingOptions, type ProcessedImage, type CropOptions, type ObjectCrop } from '../types';
+import { type PreprocessRequest, type CropRequest, type WorkerResponse } from './preprocess.worker';
+
+export const DEFAULT_PREPROCESSING: PreprocessingOptions = {
+    enabled: true,
+    maxLongEdge: 1536,
+    format: 'jpeg',
+    quality: 0.85,
+};
+
+// Few-shot example images are stored with the prompts in browser storage, so they are kept small.
+export const EXAMPLE_IMAGE_PREPROCESSING: PreprocessingOptions = {
+    enabled: true,
+    maxLongEdge: 512,
+    format: 'jpeg',
+    quality: 0.8,
+};
+
+export const DEFAULT_CROP_OPTIONS: CropOptions = {
+    mode: 'crop',
+    padding: 0.1,
+    minSize: 448,
+};
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, { resolve: (response: WorkerResponse) => void, reject: (error: Error) => void }>();
+
+const getWorker = (): Worker | null => {
+    if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return null;
+    if (!worker) {
+        worker = new Worker(new URL('./preprocess.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+            const pending = pendingRequests.get(event.data.id);
+            if (!pending) return;
+            pendingRequests.delete(event.data.id);
+            if (event.data.error) pending.reject(new Error(event.data.error));
+            else pending.resolve(event.data);
+        };
+        worker.onerror = (event) => {
+            // A crashed worker fails everything in flight; the next call starts a fresh one.
+            pendingRequests.forEach(pending => pending.reject(new Error(event.message || 'Image preprocessing worker crashed.')));
+            pendingRequests.clear();
+            worker?.terminate();
+            worker = null;
+        };
+    }
+    return worker;
+};
+
+const runInWorker = (activeWorker: Worker, request: PreprocessRequest | CropRequest): Promise<WorkerResponse> =>
+    new Promise((resolve, reject) => {
+        pendingRequests.set(request.id, { resolve, reject });
+        activeWorker.postMessage(request);
+    });
+
+const readAsDataUrl = (file: File): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(file);
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+    });
+
+// The decoded size of the original, so pixel-based bounding boxes can still be normalized.
+const readImageSize = (dataUrl: string): Promise<{ width?: number, height?: number }> =>
+    new Promise(resolve => {
+        const image = new Image();
+        image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+        image.onerror = () => resolve({});
+        image.src = dataUrl;
+    });
+
+// Identifies the variant of an image the model receives; used for per-image caching and response cache keys.
+export const describePreprocessing = (options: PreprocessingOptions, fullResolution = false): string => {
+    if (!options.enabled) return 'original';
+    return `${fullResolution ? 'full' : options.maxLongEdge}|${options.format}|${options.quality}`;
+};
+
+// Falls back to sending the original file when preprocessing is disabled, unsupported or fails
+// (e.g. a format the browser cannot decode).
+export const preprocessImage = async (file: File, options: PreprocessingOptions, fullResolution = false): Promise<ProcessedImage> => {
+    const activeWorker = options.enabled ? getWorker() : null;
+    if (activeWorker) {
+        try {
+            const { image } = await runInWorker(activeWorker, {
+                kind: 'preprocess',
+                id: nextRequestId++,
+                file,
+                maxLongEdge: fullResolution ? 0 : options.maxLongEdge,
+                format: options.format,
+                quality: options.quality,
+            });
+            return image!;
+        } catch (error) {
+            console.warn(`Preprocessing failed for ${file.name}, sending the original file:`, error);
+        }
+    }
+    const dataUrl = await readAsDataUrl(file);
+    return { dataUrl, ...(await readImageSize(dataUrl)), scaleX: 1, scaleY: 1 };
+};
+
+// Cuts one padded crop per region (relative to 1000x1000) out of an already preprocessed image.
+// Resolves to null when cropping is unavailable, in which case callers fall back to the full image.
+export const cropRegions = async (
+    sourceDataUrl: string,
+    regions: [number, number, number, number][],
+    cropOptions: Pick<CropOptions, 'padding' | 'minSize'> & { maxLongEdge?: number },
+    encodeOptions: Pick<PreprocessingOptions, 'format' | 'quality'>,
+): Promise<ObjectCrop[] | null> => {
+    const activeWorker = getWorker();
+    if (!activeWorker) return null;
+    try {
+        const source = await (await fetch(sourceDataUrl)).blob();
+        const { crops } = await runInWorker(activeWorker, {
+            kind: 'crop',
+            id: nextRequestId++,
+            source,
+            regions,
+            padding: cropOptions.padding,
+            minSize: cropOptions.minSize,
+            maxLongEdge: cropOptions.maxLongEdge,
+            format: encodeOptions.format,
+            quality: encodeOptions.quality,
+        });
+        return crops!;
+    } catch (error) {
+        console.warn("Cropping image regions failed:", error);
+        return null;
+    }
+};
@@ -0,0 +1,117 @@
+import { type ProcessedImage, type ObjectCrop } from '../types';
+
+interface EncodeOptions {
+    format: 'jpeg' | 'webp';
+    quality: number;
+}
+
+export interface PreprocessRequest extends EncodeOptions {
+    kind: 'preprocess';
+    id: number;
+    file: File;
+    maxLongEdge: number;
+}
+
+export interface CropRequest extends EncodeOptions {
+    kind: 'crop';
+    id: number;
+    source: Blob;
+    regions: [number, number, number, number][]; // Relative to a 1000x1000 canvas
+    padding: number;
+    minSize: number;
+    maxLongEdge?: number; // Larger crops are scaled down to this; defaults to MAX_CROP_EDGE
+}
+
+export interface WorkerResponse {
+    id: number;
+    image?: ProcessedImage;
+    crops?: ObjectCrop[];
+    error?: string;
+}
+
+// Crops never get a longer edge than this, however small their short edge is.
+const MAX_CROP_EDGE = 2048;
+
+const blobToDataUrl = async (blob: Blob): Promise<string> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    let binary = '';
+    // Chunked to stay below the argument limit of String.fromCharCode.
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return `data:${blob.type};base64,${btoa(binary)}`;
+};
+
+const encode = async (
+    bitmap: ImageBitmap,
+    source: [number, number, number, number],
+    width: number,
+    height: number,
+    { format, quality }: EncodeOptions,
+): Promise<string> => {
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d')!;
+    if (format === 'jpeg') {
+        // JPEG has no alpha channel; transparent areas would otherwise turn black.
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, width, height);
+    }
+    const [sx, sy, sw, sh] = source;
+    context.drawImage(bitmap, sx, sy, sw, sh, 0, 0, width, height);
+    return blobToDataUrl(await canvas.convertToBlob({ type: `image/${format}`, quality }));
+};
+
+const preprocess = async (request: PreprocessRequest): Promise<ProcessedImage> => {
+    // 'from-image' applies the EXIF orientation, so the pixels match what the browser displays.
+    const bitmap = await createImageBitmap(request.file, { imageOrientation: 'from-image' });
+    const { width: originalWidth, height: originalHeight } = bitmap;
+    const scale = request.maxLongEdge > 0 ? Math.min(1, request.maxLongEdge / Math.max(originalWidth, originalHeight)) : 1;
+    const width = Math.max(1, Math.round(originalWidth * scale));
+    const height = Math.max(1, Math.round(originalHeight * scale));
+
+    const dataUrl = await encode(bitmap, [0, 0, originalWidth, originalHeight], width, height, request);
+    bitmap.close();
+    return { dataUrl, width, height, scaleX: width / originalWidth, scaleY: height / originalHeight };
+};
+
+const crop = async (request: CropRequest): Promise<ObjectCrop[]> => {
+    const bitmap = await createImageBitmap(request.source);
+    const clamp = (value: number) => Math.max(0, Math.min(1000, value));
+    const crops: ObjectCrop[] = [];
+
+    for (const box of request.regions) {
+        const x1 = Math.min(box[0], box[2]), x2 = Math.max(box[0], box[2]);
+        const y1 = Math.min(box[1], box[3]), y2 = Math.max(box[1], box[3]);
+        const padX = (x2 - x1) * request.padding;
+        const padY = (y2 - y1) * request.padding;
+        const region: ObjectCrop['region'] = [clamp(x1 - padX), clamp(y1 - padY), clamp(x2 + padX), clamp(y2 + padY)];
+
+        const sx = region[0] / 1000 * bitmap.width;
+        const sy = region[1] / 1000 * bitmap.height;
+        const sw = Math.max(1, (region[2] - region[0]) / 1000 * bitmap.width);
+        const sh = Math.max(1, (region[3] - region[1]) / 1000 * bitmap.height);
+        const minScale = Math.max(1, request.minSize / Math.min(sw, sh));
+        const scale = Math.min(minScale, (request.maxLongEdge || MAX_CROP_EDGE) / Math.max(sw, sh));
+
+        const width = Math.max(1, Math.round(sw * scale));
+        const height = Math.max(1, Math.round(sh * scale));
+        const dataUrl = await encode(bitmap, [sx, sy, sw, sh], width, height, request);
+        crops.push({ dataUrl, width, height, region });
+    }
+
+    bitmap.close();
+    return crops;
+};
+
+self.onmessage = async (event: MessageEvent<PreprocessRequest | CropRequest>) => {
+    const request = event.data;
+    let response: WorkerResponse;
+    try {
+        response = request.kind === 'crop'
+            ? { id: request.id, crops: await crop(request) }
+            : { id: request.id, image: await preprocess(request) };
+    } catch (error) {
+        response = { id: request.id, error: (error as Error).message || String(error) };
+    }
+    self.postMessage(response);
+};
@@ -0,0 +1,374 @@
+import { type ApiConfig, type ProviderType, type TokenUsage } from '../types';
+
+// Provider-neutral chat turn. Images are data URLs; each adapter converts them to its own wire format.
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    text: string;
+    images?: string[];
+}
+
+export interface RequestOptions {
+    stream: boolean;
+    // JSON Schema the answer must follow, enforced by the server where the provider supports it.
+    responseSchema?: object;
+    // Number of most likely alternatives to report per generated token, where the provider supports it.
+    topLogprobs?: number;
+}
+
+export interface ProviderRequest {
+    url: string;
+    headers: Record<string, string>;
+    body: any;
+}
+
+export interface ModelsRequest {
+    url: string;
+    headers: Record<string, string>;
+}
+
+// One generated token with the alternatives the model weighed at that position.
+export interface TokenLogprob {
+    token: string;
+    logprob: number;
+    top: { token: string, logprob: number }[];
+}
+
+export interface ProviderResponse {
+    content: string;
+    reasoning?: string; // Sent in a separate field by reasoning-capable servers
+    truncated: boolean;
+    usage?: TokenUsage;
+    logprobs?: TokenLogprob[]; // Only present when requested and supported
+}
+
+export interface ProviderStreamEvent {
+    content?: string;
+    reasoning?: string;
+    truncated?: boolean;
+    usage?: TokenUsage;
+}
+
+export interface ProviderAdapter {
+    label: string;
+    endpointPlaceholder: string;
+    supportsResponseSchema: boolean;
+    supportsLogprobs: boolean;
+    buildRequest: (messages: ChatMessage[], config: ApiConfig, options: RequestOptions) => ProviderRequest;
+    parseResponse: (data: any) => ProviderResponse;
+    // Receives one line of the streamed body; returns null for lines that carry nothing of interest.
+    parseStreamLine: (line: string) => ProviderStreamEvent | null;
+    // GET request listing the models the server offers, derived from the configured endpoint.
+    buildModelsRequest: (config: ApiConfig) => ModelsRequest;
+    parseModels: (data: any) => string[];
+}
+
+const parseDataUrl = (dataUrl: string): { mediaType: string, data: string } => {
+    const match = dataUrl.match(/^data:([^;]+);base64,(.*)$/);
+    if (!match) return { mediaType: 'image/jpeg', data: dataUrl };
+    return { mediaType: match[1], data: match[2] };
+};
+
+// Swaps the request path of the configured endpoint for a sibling route, e.g. /v1/chat/completions -> /v1/models.
+// Endpoints without the expected suffix are treated as a base URL. Throws on malformed URLs.
+const siblingUrl = (endpoint: string, suffix: RegExp, replacement: string): string => {
+    const url = new URL(endpoint);
+    url.pathname = suffix.test(url.pathname)
+        ? url.pathname.replace(suffix, replacement)
+        : `${url.pathname.replace(/\/$/, '')}${replacement}`;
+    return url.toString();
+};
+
+const bearerHeaders = (config: ApiConfig): Record<string, string> =>
+    config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {};
+
+const parseSseData = (line: string): any | null => {
+    if (!line.startsWith('data:')) return null;
+    const jsonStr = line.substring(5).trim();
+    if (!jsonStr || jsonStr === '[DONE]') return null;
+    return JSON.parse(jsonStr);
+};
+
+// `completion_tokens_details.reasoning_tokens` is only reported by some OpenAI-compatible servers.
+const parseOpenAiUsage = (usage: any): TokenUsage | undefined => usage ? {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    reasoningTokens: usage.completion_tokens_details?.reasoning_tokens,
+} : undefined;
+
+// OpenAI and Ollama share this shape: [{ token, logprob, top_logprobs: [{ token, logprob }] }].
+const parseOpenAiLogprobs = (content: any): TokenLogprob[] | undefined => Array.isArray(content) ? content.map((entry: any) => ({
+    token: entry.token ?? '',
+    logprob: entry.logprob,
+    top: (entry.top_logprobs || []).map((alt: any) => ({ token: alt.token ?? '', logprob: alt.logprob })),
+})) : undefined;
+
+// Recent llama.cpp builds report log-probabilities; older ones report probabilities as `probs`.
+const parseLlamaCppProbabilities = (entries: any): TokenLogprob[] | undefined => Array.isArray(entries) ? entries.map((entry: any) => {
+    if (entry.top_logprobs) return {
+        token: entry.token ?? '',
+        logprob: entry.logprob,
+        top: entry.top_logprobs.map((alt: any) => ({ token: alt.token ?? '', logprob: alt.logprob })),
+    };
+    const top = (entry.probs || []).map((alt: any) => ({ token: alt.tok_str ?? '', logprob: Math.log(alt.prob) }));
+    return { token: entry.content ?? '', logprob: top.find((alt: any) => alt.token === entry.content)?.logprob ?? 0, top };
+}) : undefined;
+
+const openAiAdapter: ProviderAdapter = {
+    label: 'OpenAI-compatible',
+    endpointPlaceholder: 'http://127.0.0.1:1234/v1/chat/completions',
+    supportsResponseSchema: true,
+    supportsLogprobs: true,
+    buildRequest: (messages, config, { stream, responseSchema, topLogprobs }) => {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+        const body: any = {
+            model: config.modelName,
+            messages: messages.map(m => {
+                if (!m.images || m.images.length === 0) return { role: m.role, content: m.text };
+                return {
+                    role: m.role,
+                    content: [
+                        { type: "text", text: m.text },
+                        ...m.images.map(url => ({ type: "image_url", image_url: { url } })),
+                    ],
+                };
+            }),
+            stream,
+        };
+        // Without this, OpenAI-compatible servers omit token usage from streamed responses.
+        if (stream) body.stream_options = { include_usage: true };
+        if (config.maxTokens) body.max_tokens = config.maxTokens;
+        if (config.temperature !== undefined) body.temperature = config.temperature;
+        if (responseSchema) body.response_format = { type: 'json_schema', json_schema: { name: 'response', schema: responseSchema } };
+        if (topLogprobs) {
+            body.logprobs = true;
+            body.top_logprobs = topLogprobs;
+        }
+
+        return { url: config.apiEndpoint, headers, body };
+    },
+    // DeepSeek, vLLM and Qwen-style servers use `reasoning_content`; LM Studio and OpenRouter use `reasoning`.
+    parseResponse: (data) => ({
+        content: data.choices?.[0]?.message?.content ?? '',
+        reasoning: data.choices?.[0]?.message?.reasoning_content || data.choices?.[0]?.message?.reasoning || undefined,
+        truncated: data.choices?.[0]?.finish_reason === 'length',
+        usage: parseOpenAiUsage(data.usage),
+        logprobs: parseOpenAiLogprobs(data.choices?.[0]?.logprobs?.content),
+    }),
+    parseStreamLine: (line) => {
+        const chunk = parseSseData(line);
+        if (!chunk) return null;
+        return {
+            content: chunk.choices?.[0]?.delta?.content || undefined,
+            reasoning: chunk.choices?.[0]?.delta?.reasoning_content || chunk.choices?.[0]?.delta?.reasoning || undefined,
+            truncated: chunk.choices?.[0]?.finish_reason === 'length',
+            usage: parseOpenAiUsage(chunk.usage),
+        };
+    },
+    buildModelsRequest: (config) => ({
+        url: siblingUrl(config.apiEndpoint, /\/chat\/completions\/?$/, '/models'),
+        headers: bearerHeaders(config),
+    }),
+    parseModels: (data) => (data.data || []).map((model: any) => model.id),
+};
+
+const ollamaAdapter: ProviderAdapter = {
+    label: 'Ollama (native)',
+    endpointPlaceholder: 'http://127.0.0.1:11434/api/chat',
+    supportsResponseSchema: true,
+    supportsLogprobs: true,
+    buildRequest: (messages, config, { stream, responseSchema, topLogprobs }) => {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+        const options: any = {};
+        if (config.maxTokens) options.num_predict = config.maxTokens;
+        if (config.temperature !== undefined) options.temperature = config.temperature;
+
+        const body: any = {
+            model: config.modelName,
+            messages: messages.map(m => ({
+                role: m.role,
+                content: m.text,
+                ...(m.images && m.images.length > 0 && { images: m.images.map(url => parseDataUrl(url).data) }),
+            })),
+            stream,
+            options,
+        };
+        if (responseSchema) body.format = responseSchema;
+        if (topLogprobs) {
+            body.logprobs = true;
+            body.top_logprobs = topLogprobs;
+        }
+
+        return { url: config.apiEndpoint, headers, body };
+    },
+    parseResponse: (data) => ({
+        content: data.message?.content ?? '',
+        reasoning: data.message?.thinking || undefined,
+        truncated: data.done_reason === 'length',
+        usage: { promptTokens: data.prompt_eval_count, completionTokens: data.eval_count },
+        logprobs: parseOpenAiLogprobs(data.logprobs),
+    }),
+    parseStreamLine: (line) => {
+        if (!line) return null;
+        const chunk = JSON.parse(line);
+        if (chunk.error) throw new Error(chunk.error);
+        return {
+            content: chunk.message?.content || undefined,
+            reasoning: chunk.message?.thinking || undefined,
+            truncated: chunk.done_reason === 'length',
+            usage: chunk.done ? { promptTokens: chunk.prompt_eval_count, completionTokens: chunk.eval_count } : undefined,
+        };
+    },
+    buildModelsRequest: (config) => ({
+        url: siblingUrl(config.apiEndpoint, /\/api\/(chat|generate)\/?$/, '/api/tags'),
+        headers: bearerHeaders(config),
+    }),
+    parseModels: (data) => (data.models || []).map((model: any) => model.name),
+};
+
+const llamaCppAdapter: ProviderAdapter = {
+    label: 'llama.cpp server (/completion)',
+    endpointPlaceholder: 'http://127.0.0.1:8080/completion',
+    supportsResponseSchema: true,
+    supportsLogprobs: true,
+    buildRequest: (messages, config, { stream, responseSchema, topLogprobs }) => {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+        // The raw completion endpoint has no chat template, so the conversation is flattened
+        // into a USER/ASSISTANT transcript with [img-N] markers referencing image_data entries.
+        const imageData: { data: string, id: number }[] = [];
+        const lines = messages.map(m => {
+            if (m.role === 'system') return m.text;
+            const markers = (m.images || []).map(url => {
+                const id = 10 + imageData.length;
+                imageData.push({ data: parseDataUrl(url).data, id });
+                return `[img-${id}]`;
+            });
+            const speaker = m.role === 'user' ? 'USER' : 'ASSISTANT';
+            return `${speaker}: ${[...markers, m.text].join('\n')}`;
+        });
+        lines.push('ASSISTANT:');
+
+        const body: any = {
+            prompt: lines.join('\n'),
+            image_data: imageData,
+            stream,
+            cache_prompt: true,
+        };
+        if (config.maxTokens) body.n_predict = config.maxTokens;
+        if (config.temperature !== undefined) body.temperature = config.temperature;
+        // The server compiles the schema to a GBNF grammar.
+        if (responseSchema) body.json_schema = responseSchema;
+        if (topLogprobs) body.n_probs = topLogprobs;
+
+        return { url: config.apiEndpoint, headers, body };
+    },
+    parseResponse: (data) => ({
+        content: data.content ?? '',
+        truncated: data.stopped_limit === true || data.stop_type === 'limit',
+        usage: { promptTokens: data.tokens_evaluated, completionTokens: data.tokens_predicted },
+        logprobs: parseLlamaCppProbabilities(data.completion_probabilities),
+    }),
+    parseStreamLine: (line) => {
+        const chunk = parseSseData(line);
+        if (!chunk) return null;
+        return {
+            content: chunk.content || undefined,
+            truncated: chunk.stop && (chunk.stopped_limit === true || chunk.stop_type === 'limit'),
+            usage: chunk.stop ? { promptTokens: chunk.tokens_evaluated, completionTokens: chunk.tokens_predicted } : undefined,
+        };
+    },
+    // The server loads a single model, which its OpenAI-compatible route reports.
+    buildModelsRequest: (config) => ({
+        url: siblingUrl(config.apiEndpoint, /\/completions?\/?$/, '/v1/models'),
+        headers: bearerHeaders(config),
+    }),
+    parseModels: (data) => (data.data || []).map((model: any) => model.id),
+};
+
+const anthropicAdapter: ProviderAdapter = {
+    label: 'Anthropic Messages',
+    endpointPlaceholder: 'https://api.anthropic.com/v1/messages',
+    // The Messages API has no schema-constrained decoding, so prompts stay in prompt-only mode.
+    supportsResponseSchema: false,
+    // Nor does it report token probabilities.
+    supportsLogprobs: false,
+    buildRequest: (messages, config, { stream }) => {
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+            'anthropic-version': '2023-06-01',
+            'anthropic-dangerous-direct-browser-access': 'true',
+        };
+        if (config.apiKey) headers['x-api-key'] = config.apiKey;
+
+        const system = messages.filter(m => m.role === 'system').map(m => m.text).join('\n\n');
+        const body: any = {
+            model: config.modelName,
+            messages: messages.filter(m => m.role !== 'system').map(m => ({
+                role: m.role,
+                content: [
+                    ...(m.images || []).map(url => {
+                        const { mediaType, data } = parseDataUrl(url);
+                        return { type: 'image', source: { type: 'base64', media_type: mediaType, data } };
+                    }),
+                    { type: 'text', text: m.text },
+                ],
+            })),
+            // max_tokens is mandatory for this API.
+            max_tokens: config.maxTokens || 4096,
+            stream,
+        };
+        if (system) body.system = system;
+        if (config.temperature !== undefined) body.temperature = config.temperature;
+
+        return { url: config.apiEndpoint, headers, body };
+    },
+    parseResponse: (data) => ({
+        content: (data.content || []).filter((block: any) => block.type === 'text').map((block: any) => block.text).join(''),
+        reasoning: (data.content || []).filter((block: any) => block.type === 'thinking').map((block: any) => block.thinking).join('') || undefined,
+        truncated: data.stop_reason === 'max_tokens',
+        usage: data.usage ? { promptTokens: data.usage.input_tokens, completionTokens: data.usage.output_tokens } : undefined,
+    }),
+    parseStreamLine: (line) => {
+        const event = parseSseData(line);
+        if (!event) return null;
+        switch (event.type) {
+            case 'content_block_delta':
+                if (event.delta?.type === 'thinking_delta') return { reasoning: event.delta.thinking };
+                return event.delta?.type === 'text_delta' ? { content: event.delta.text } : null;
+            case 'message_start':
+                return { usage: { promptTokens: event.message?.usage?.input_tokens } };
+            case 'message_delta':
+                return {
+                    truncated: event.delta?.stop_reason === 'max_tokens',
+                    usage: event.usage ? { completionTokens: event.usage.output_tokens } : undefined,
+                };
+            case 'error':
+                throw new Error(event.error?.message || 'Provider returned a stream error.');
+            default:
+                return null;
+        }
+    },
+    buildModelsRequest: (config) => ({
+        url: siblingUrl(config.apiEndpoint, /\/messages\/?$/, '/models'),
+        headers: {
+            'anthropic-version': '2023-06-01',
+            'anthropic-dangerous-direct-browser-access': 'true',
+            ...(config.apiKey && { 'x-api-key': config.apiKey }),
+        },
+    }),
+    parseModels: (data) => (data.data || []).map((model: any) => model.id),
+};
+
+export const PROVIDERS: Record<ProviderType, ProviderAdapter> = {
+    openai: openAiAdapter,
+    ollama: ollamaAdapter,
+    llamacpp: llamaCppAdapter,
+    anthropic: anthropicAdapter,
+};
+
+export const getProvider = (provider: ProviderType | undefined): ProviderAdapter => PROVIDERS[provider || 'openai'];
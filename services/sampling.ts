@@ -0,0 +1,97 @@
+import { type BoundingBox, type Prompt, type SamplingSummary, ResultType } from '../types';
+import { intersectionOverUnion } from './tiling';
+import { normalizeCategory } from './comparison';
+import { parseYesNo } from './yesNo';
+
+export const MAX_SAMPLES = 10;
+// Boxes from different samples are treated as the same object above this overlap.
+const CLUSTER_IOU = 0.5;
+
+export const SAMPLED_TYPES: ResultType[] = [ResultType.YesNo, ResultType.Category, ResultType.Score, ResultType.Number, ResultType.BoundingBox];
+
+export const getSampleCount = (prompt: Prompt): number =>
+    SAMPLED_TYPES.includes(prompt.type) ? Math.min(MAX_SAMPLES, Math.max(1, Math.round(prompt.samples || 1))) : 1;
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// Ties go to the answer that was given first.
+const voteOn = (answers: any[], keyOf: (answer: any) => string) => {
+    const votes: Record<string, number> = {};
+    const firstAnswer = new Map<string, any>();
+    answers.forEach(answer => {
+        const key = keyOf(answer);
+        votes[key] = (votes[key] || 0) + 1;
+        if (!firstAnswer.has(key)) firstAnswer.set(key, answer);
+    });
+    const winner = [...firstAnswer.keys()].reduce((best, key) => votes[key] > votes[best] ? key : best);
+    return { data: firstAnswer.get(winner), votes, confidence: votes[winner] / answers.length };
+};
+
+// Greedy clustering of same-label boxes, at most one box per sample in a cluster. Clusters found by
+// at least half of the samples are kept and averaged.
+const clusterBoxes = (samples: BoundingBox[][]) => {
+    const clusters: { label: string, members: BoundingBox[], sampleIndices: Set<number> }[] = [];
+    samples.forEach((boxes, sampleIndex) => boxes.forEach(box => {
+        const label = box.label.trim().toLowerCase();
+        let best: typeof clusters[number] | undefined, bestIou = CLUSTER_IOU;
+        clusters.forEach(cluster => {
+            if (cluster.label !== label || cluster.sampleIndices.has(sampleIndex)) return;
+            const iou = Math.max(...cluster.members.map(member => intersectionOverUnion(member.box, box.box)));
+            if (iou >= bestIou) { bestIou = iou; best = cluster; }
+        });
+        if (best) { best.members.push(box); best.sampleIndices.add(sampleIndex); }
+        else clusters.push({ label, members: [box], sampleIndices: new Set([sampleIndex]) });
+    }));
+
+    const kept = clusters
+        .filter(cluster => cluster.sampleIndices.size * 2 >= samples.length)
+        .sort((a, b) => b.sampleIndices.size - a.sampleIndices.size);
+    const boxes: BoundingBox[] = kept.map(cluster => ({
+        label: cluster.members[0].label,
+        box: [0, 1, 2, 3].map(i => Math.round(cluster.members.reduce((acc, m) => acc + m.box[i], 0) / cluster.members.length)) as BoundingBox['box'],
+    }));
+    const boxSupport = kept.map(cluster => cluster.sampleIndices.size / samples.length);
+    // Samples agreeing that there is nothing to find are as consistent as samples agreeing on boxes.
+    const emptyShare = samples.filter(s => s.length === 0).length / samples.length;
+    const confidence = boxSupport.length > 0 ? boxSupport.reduce((acc, s) => acc + s, 0) / boxSupport.length : emptyShare;
+    return { boxes, boxSupport, confidence };
+};
+
+// Combines the parsed answers of the successful samples into one answer plus its spread.
+export const aggregateSamples = (prompt: Prompt, answers: any[], requested: number): { data: any, summary: SamplingSummary } => {
+    const base = { samples: requested, succeeded: answers.length };
+    switch (prompt.type) {
+        case ResultType.YesNo: {
+            const { data, votes, confidence } = voteOn(answers, answer => parseYesNo(String(answer)));
+            return { data, summary: { ...base, votes, confidence } };
+        }
+        case ResultType.Category: {
+            const { data, votes, confidence } = voteOn(answers, answer => normalizeCategory(String(answer)));
+            return { data, summary: { ...base, votes, confidence } };
+        }
+        case ResultType.Score:
+        case ResultType.Number: {
+            const values = answers as number[];
+            const mean = values.reduce((acc, v) => acc + v, 0) / values.length;
+            const stdDev = Math.sqrt(values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / values.length);
+            // Scores are judged against their scale, free numbers against their own size.
+            const [min, max] = prompt.scoreRange || [0, 10];
+            const scale = prompt.type === ResultType.Score ? (max - min) / 2 : Math.abs(mean);
+            const confidence = stdDev === 0 ? 1 : scale > 0 ? clamp01(1 - stdDev / scale) : 0;
+            const middle = median(values);
+            return { data: middle, summary: { ...base, values, mean, median: middle, stdDev, confidence } };
+        }
+        case ResultType.BoundingBox: {
+            const { boxes, boxSupport, confidence } = clusterBoxes(answers as BoundingBox[][]);
+            return { data: boxes, summary: { ...base, boxSupport, confidence } };
+        }
+        default:
+            return { data: answers[0], summary: { ...base, confidence: 1 } };
+    }
+};
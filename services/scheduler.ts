@@ -0,0 +1,116 @@
+import { type ConcurrencyLimits } from '../types';
+
+export interface ScheduleOptions {
+    endpoint: string;
+    imageId?: string;
+    urgent?: boolean; // Follow-up questions jump the queue
+    signal?: AbortSignal;
+}
+
+interface SchedulerHooks {
+    getLimits: () => ConcurrencyLimits;
+    isPreferredImage: (imageId: string) => boolean;
+}
+
+interface QueuedTask {
+    options: ScheduleOptions;
+    sequence: number;
+    start: () => void;
+}
+
+const queue: QueuedTask[] = [];
+const activeByEndpoint = new Map<string, number>();
+// Requests started per image, used to interleave images fairly within the same priority.
+const startedByImage = new Map<string, number>();
+let activeCount = 0;
+let nextSequence = 0;
+
+let hooks: SchedulerHooks = {
+    getLimits: () => ({ global: 4, perEndpoint: 2 }),
+    isPreferredImage: () => false,
+};
+
+export const configureScheduler = (newHooks: SchedulerHooks) => {
+    hooks = newHooks;
+    pump();
+};
+
+const getPriority = (task: QueuedTask): number => {
+    if (task.options.urgent) return 2;
+    if (task.options.imageId && hooks.isPreferredImage(task.options.imageId)) return 1;
+    return 0;
+};
+
+// Negative when `a` should run before `b`: higher priority first, then the least-served image, then FIFO.
+const compareTasks = (a: QueuedTask, b: QueuedTask): number => {
+    const priorityDiff = getPriority(b) - getPriority(a);
+    if (priorityDiff !== 0) return priorityDiff;
+    const servedDiff = (startedByImage.get(a.options.imageId || '') || 0) - (startedByImage.get(b.options.imageId || '') || 0);
+    if (servedDiff !== 0) return servedDiff;
+    return a.sequence - b.sequence;
+};
+
+const pickNextIndex = (perEndpointLimit: number): number => {
+    let bestIndex = -1;
+    queue.forEach((task, index) => {
+        if ((activeByEndpoint.get(task.options.endpoint) || 0) >= perEndpointLimit) return;
+        if (bestIndex === -1 || compareTasks(task, queue[bestIndex]) < 0) bestIndex = index;
+    });
+    return bestIndex;
+};
+
+function pump() {
+    const limits = hooks.getLimits();
+    while (activeCount < Math.max(1, limits.global)) {
+        const index = pickNextIndex(Math.max(1, limits.perEndpoint));
+        if (index === -1) break;
+        const [task] = queue.splice(index, 1);
+        const { endpoint, imageId } = task.options;
+        activeCount++;
+        activeByEndpoint.set(endpoint, (activeByEndpoint.get(endpoint) || 0) + 1);
+        if (imageId) startedByImage.set(imageId, (startedByImage.get(imageId) || 0) + 1);
+        task.start();
+    }
+    if (activeCount === 0 && queue.length === 0) {
+        startedByImage.clear();
+    }
+}
+
+const release = (endpoint: string) => {
+    activeCount--;
+    activeByEndpoint.set(endpoint, (activeByEndpoint.get(endpoint) || 1) - 1);
+    pump();
+};
+
+// Queues a model request. The task holds its slot until the returned promise settles,
+// so streamed responses should be fully consumed inside the task.
+export function scheduleRequest<T>(task: () => Promise<T>, options: ScheduleOptions): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        const { signal } = options;
+        if (signal?.aborted) {
+            reject(new DOMException('Aborted', 'AbortError'));
+            return;
+        }
+
+        const onAbort = () => {
+            const index = queue.indexOf(queued);
+            if (index !== -1) {
+                queue.splice(index, 1);
+                reject(new DOMException('Aborted', 'AbortError'));
+            }
+        };
+
+        const queued: QueuedTask = {
+            options,
+            sequence: nextSequence++,
+            start: () => {
+                signal?.removeEventListener('abort', onAbort);
+                Promise.resolve().then(task).then(resolve, reject).finally(() => release(options.endpoint));
+            },
+        };
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+        queue.push(queued);
+        pump();
+    });
+}
@@ -0,0 +1,99 @@
+import { type AnalysisResult, type ImageScale, type Prompt, type TemplateVariable } from '../types';
+import { isObjectParent } from './polygons';
+
+// Values for the {{...}} placeholders of one prompt on one image.
+export interface TemplateContext {
+    image?: { filename: string, width?: number, height?: number }; // Original pixel size
+    parentAnswer?: string;
+    bboxLabel?: string; // Set per object for children of Bounding Box prompts
+    results: Record<string, string>; // Latest successful answer per prompt id
+    variables: Record<string, string>;
+}
+
+interface TemplateContextParams {
+    prompt: Prompt;
+    prompts: Prompt[];
+    imageResults?: Record<string, AnalysisResult[]>;
+    fileName?: string;
+    imageScale?: ImageScale;
+    variables: TemplateVariable[];
+    bboxLabel?: string;
+}
+
+const PLACEHOLDER = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const RESULT_PREFIX = 'result:';
+
+export const BUILT_IN_VARIABLES = ['image.filename', 'image.width', 'image.height', 'parent.answer', 'bbox.label'];
+// No dots or colons, so user variables cannot shadow the built-in ones.
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_][\w-]*$/;
+
+export const answerToText = (data: any): string =>
+    typeof data === 'string' ? data : typeof data === 'number' ? data.toString() : JSON.stringify(data);
+
+const latestAnswer = (history?: AnalysisResult[]): string | undefined => {
+    const result = history?.filter(r => r.status === 'success').pop();
+    return result ? answerToText(result.data) : undefined;
+};
+
+export const createTemplateContext = ({ prompt, prompts, imageResults = {}, fileName, imageScale, variables, bboxLabel }: TemplateContextParams): TemplateContext => {
+    const results: Record<string, string> = {};
+    for (const [promptId, history] of Object.entries(imageResults)) {
+        const answer = latestAnswer(history);
+        if (answer !== undefined) results[promptId] = answer;
+    }
+    const originalSize = (size?: number, scale?: number) => size && scale ? Math.round(size / scale) : undefined;
+    return {
+        image: fileName === undefined ? undefined : {
+            filename: fileName,
+            width: originalSize(imageScale?.width, imageScale?.scaleX),
+            height: originalSize(imageScale?.height, imageScale?.scaleY),
+        },
+        parentAnswer: prompt.parentId ? results[prompt.parentId] : undefined,
+        bboxLabel,
+        results,
+        variables: Object.fromEntries(variables.filter(v => v.name).map(v => [v.name, v.value])),
+    };
+};
+
+const lookup = (name: string, context: TemplateContext): string | undefined => {
+    if (name.startsWith(RESULT_PREFIX)) return context.results[name.substring(RESULT_PREFIX.length).trim()];
+    switch (name) {
+        case 'image.filename': return context.image?.filename;
+        case 'image.width': return context.image?.width?.toString();
+        case 'image.height': return context.image?.height?.toString();
+        case 'parent.answer': return context.parentAnswer;
+        case 'bbox.label': return context.bboxLabel;
+        default: return Object.prototype.hasOwnProperty.call(context.variables, name) ? context.variables[name] : undefined;
+    }
+};
+
+export const hasPlaceholders = (text: string): boolean => new RegExp(PLACEHOLDER.source).test(text);
+
+// Placeholders without a value are left as written.
+export const resolveTemplate = (text: string, context: TemplateContext): string =>
+    text.replace(PLACEHOLDER, (placeholder, name) => lookup(name, context) ?? placeholder);
+
+export const findUnresolved = (text: string, context: TemplateContext): string[] =>
+    [...text.matchAll(PLACEHOLDER)].filter(([, name]) => lookup(name, context) === undefined).map(([placeholder]) => placeholder);
+
+export const getReferencedPromptIds = (text: string): string[] =>
+    [...text.matchAll(PLACEHOLDER)]
+        .map(([, name]) => name)
+        .filter(name => name.startsWith(RESULT_PREFIX))
+        .map(name => name.substring(RESULT_PREFIX.length).trim());
+
+// Placeholders that can never resolve for this prompt, whatever the image.
+export const validateTemplate = (prompt: Prompt, prompts: Prompt[], variables: TemplateVariable[]): string[] => {
+    const parent = prompts.find(p => p.id === prompt.parentId);
+    return [...prompt.text.matchAll(PLACEHOLDER)].flatMap(([placeholder, name]) => {
+        if (name.startsWith(RESULT_PREFIX)) {
+            const id = name.substring(RESULT_PREFIX.length).trim();
+            if (id === prompt.id) return [`${placeholder} refers to this prompt itself.`];
+            return prompts.some(p => p.id === id) ? [] : [`${placeholder}: there is no prompt with the id "${id}".`];
+        }
+        if (name === 'parent.answer') return parent ? [] : [`${placeholder} only works in conditional prompts.`];
+        if (name === 'bbox.label') return isObjectParent(parent) ? [] : [`${placeholder} only works under a Bounding Box, Polygon or Points prompt.`];
+        if (BUILT_IN_VARIABLES.includes(name) || variables.some(v => v.name === name)) return [];
+        return [`Unknown variable ${placeholder}.`];
+    });
+};
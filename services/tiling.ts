@@ -0,0 +1,71 @@
+import { type BoundingBox, type TilingOptions } from '../types';
+
+type Region = [number, number, number, number];
+
+export const DEFAULT_TILING: TilingOptions = {
+    enabled: false,
+    rows: 2,
+    cols: 2,
+    overlap: 0.2,
+    iouThreshold: 0.5,
+};
+
+// Splits one axis of the 1000-unit canvas into `count` equal spans where neighbours share `overlap` of a span.
+const splitAxis = (count: number, overlap: number): [number, number][] => {
+    const span = 1000 / (count - (count - 1) * overlap);
+    const step = span * (1 - overlap);
+    return Array.from({ length: count }, (_, i) => [i * step, Math.min(1000, i * step + span)]);
+};
+
+export const computeTiles = (tiling: Pick<TilingOptions, 'rows' | 'cols' | 'overlap'>): Region[] => {
+    const overlap = Math.max(0, Math.min(0.5, tiling.overlap));
+    const columns = splitAxis(Math.max(1, tiling.cols), overlap);
+    const rows = splitAxis(Math.max(1, tiling.rows), overlap);
+    return rows.flatMap(([y1, y2]) => columns.map(([x1, x2]): Region => [x1, y1, x2, y2]));
+};
+
+// Maps a box in tile-local 0-1000 coordinates onto the full canvas.
+export const remapBoxFromTile = (box: BoundingBox, tile: Region): BoundingBox => {
+    const [tx1, ty1, tx2, ty2] = tile;
+    const scaleX = (tx2 - tx1) / 1000;
+    const scaleY = (ty2 - ty1) / 1000;
+    const [x1, y1, x2, y2] = box.box;
+    return {
+        label: box.label,
+        box: [
+            Math.round(tx1 + Math.min(x1, x2) * scaleX),
+            Math.round(ty1 + Math.min(y1, y2) * scaleY),
+            Math.round(tx1 + Math.max(x1, x2) * scaleX),
+            Math.round(ty1 + Math.max(y1, y2) * scaleY),
+        ],
+    };
+};
+
+const area = ([x1, y1, x2, y2]: Region): number => Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+
+export const intersectionOverUnion = (a: Region, b: Region): number => {
+    const intersection = area([Math.max(a[0], b[0]), Math.max(a[1], b[1]), Math.min(a[2], b[2]), Math.min(a[3], b[3])]);
+    const union = area(a) + area(b) - intersection;
+    return union > 0 ? intersection / union : 0;
+};
+
+// Greedy per-label NMS. Detections carry no confidence, so larger boxes win: an object cut by
+// a tile border shows up as a smaller partial box next to the complete one from the neighbouring tile.
+export const nonMaxSuppression = (boxes: BoundingBox[], iouThreshold: number): BoundingBox[] => {
+    const byLabel = new Map<string, BoundingBox[]>();
+    boxes.forEach(box => {
+        const key = box.label.trim().toLowerCase();
+        byLabel.set(key, [...(byLabel.get(key) || []), box]);
+    });
+
+    const kept: BoundingBox[] = [];
+    byLabel.forEach(group => {
+        const candidates = [...group].sort((a, b) => area(b.box) - area(a.box));
+        const selected: BoundingBox[] = [];
+        candidates.forEach(candidate => {
+            if (selected.every(s => intersectionOverUnion(s.box, candidate.box) <= iouThreshold)) selected.push(candidate);
+        });
+        kept.push(...selected);
+    });
+    return kept;
+};
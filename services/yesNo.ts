@@ -0,0 +1,68 @@
+import { type AnalysisResult, type Prompt, type YesNoAnswer, ResultType } from '../types';
+
+const YES_WORDS = ['yes', 'yeah', 'yep', 'true', 'correct', 'affirmative'];
+const NO_WORDS = ['no', 'nope', 'false', 'incorrect', 'negative'];
+const NEGATIONS = ['not', 'never', 'cannot', 'dont', 'doesnt', 'isnt', 'wouldnt', 'cant'];
+// Words before a "yes" or "no" that can negate it, e.g. "I would not say yes".
+const NEGATION_WINDOW = 3;
+// A first clause ending in "not" counts as no when it is this short: "Definitely not", "Of course not".
+const NOT_CLAUSE_MAX_WORDS = 3;
+// Later in the answer, only a yes/no word ending a phrase counts, so "there is no cat" is not an answer.
+const ANSWER_WORD = new RegExp(`\\b(${[...YES_WORDS, ...NO_WORDS].join('|')})\\b(?=\\s*([.,!?;:)"*]|$))`, 'g');
+
+// Refusals and hedges. Checked only when the answer does not open with yes or no.
+const UNCERTAIN_PATTERNS = [
+    /\b(can ?not|can't|cant|unable to|not able to|impossible to|hard to|difficult to|not possible to) (tell|say|determine|see|know|judge|confirm|answer|identify|verify)\b/,
+    /\b(not sure|unsure|uncertain|unclear|unknown|undetermined|inconclusive|ambiguous|indeterminate)\b/,
+    /\bi (don't|do not|dont) know\b/,
+    /\b(maybe|perhaps|possibly|it depends|hard to say|not enough information|insufficient information)\b/,
+    /\b(i'm sorry|i am sorry|as an ai|i can't help|i cannot help|i can't assist|i cannot assist)\b/,
+];
+
+// Lowercase words without punctuation or markdown; apostrophes are dropped so "don't" becomes "dont".
+const toWords = (text: string): string[] =>
+    text.toLowerCase().replace(/['’]/g, '').split(/[^a-z0-9]+/).filter(Boolean);
+
+// True when one of the last few words negates what follows, e.g. "I would not say" before "yes".
+export const endsWithNegation = (text: string): boolean =>
+    toWords(text).slice(-NEGATION_WINDOW).some(w => NEGATIONS.includes(w));
+
+const classifyWord = (word: string): 'yes' | 'no' | undefined =>
+    YES_WORDS.includes(word) ? 'yes' : NO_WORDS.includes(word) ? 'no' : undefined;
+
+// Reads a Yes/No answer: the opening word decides ("No, nothing here, yes I'm sure" is no); otherwise
+// refusals and hedges are uncertain, a plain "not" answer is no, and the remaining yes/no words decide if they agree once negations
+// are applied ("I would not say yes" is no).
+export const parseYesNo = (text: string): YesNoAnswer => {
+    const lowered = text.toLowerCase().replace(/’/g, "'").replace(/^\s*(\**\s*)?(answer|response|final answer)\s*:\s*/, '');
+    const words = toWords(lowered);
+    if (words.length === 0) return 'uncertain';
+
+    const opening = classifyWord(words[0]);
+    if (opening) return opening;
+
+    if (UNCERTAIN_PATTERNS.some(pattern => pattern.test(lowered))) return 'uncertain';
+
+    // Plain negatives without a "no": "Not really.", "Not at all", "Certainly not, it's a dog."
+    const firstClause = toWords(lowered.split(/[.,;:!?]/)[0]);
+    if (firstClause[0] === 'not' || (firstClause.length <= NOT_CLAUSE_MAX_WORDS && firstClause[firstClause.length - 1] === 'not')) return 'no';
+
+    const readings = new Set<'yes' | 'no'>();
+    for (const match of lowered.matchAll(ANSWER_WORD)) {
+        const reading = classifyWord(match[1])!;
+        const negated = endsWithNegation(lowered.substring(0, match.index));
+        readings.add(negated ? (reading === 'yes' ? 'no' : 'yes') : reading);
+    }
+    return readings.size === 1 ? [...readings][0] : 'uncertain';
+};
+
+// Results stored before answers were parsed only carry the text.
+export const getYesNoAnswer = (result: Pick<AnalysisResult, 'data' | 'yesNoAnswer'>): YesNoAnswer =>
+    result.yesNoAnswer ?? parseYesNo(String(result.data ?? ''));
+
+// Yes/No prompts whose latest answer on the image was uncertain, for the gallery badge.
+export const countUncertainAnswers = (prompts: Prompt[], imageResults: Record<string, AnalysisResult[]> = {}): number =>
+    prompts.filter(prompt => {
+        const latest = imageResults[prompt.id]?.[imageResults[prompt.id].length - 1];
+        return prompt.type === ResultType.YesNo && latest?.status === 'success' && getYesNoAnswer(latest) === 'uncertain';
+    }).length;
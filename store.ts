@@ -7,14 +7,51 @@ import {
   type BoundingBox,
   type BboxChildResult,
   type AnalysisStatus,
+  type ApiConfig,
+  type ApiSettings,
+  type ModelProfile,
+  type ProfileSnapshot,
+  type RetryPolicy,
+  type AnalysisAttempt,
+  type CategoryMatch,
+  type SchemaViolation,
+  type YesNoAnswer,
+  type ConcurrencyLimits,
+  type RequestMetrics,
+  type PreprocessingOptions,
+  type ProcessedImage,
+  type TileResult,
+  type CoordinateFormat,
+  type BoxFormatReport,
+  type ConversationTurn,
+  type ComparisonRun,
+  type SamplingSummary,
+  type InputImageRef,
+  type TemplateVariable,
 } from './types';
 import {
   fetchAnalysis,
   fetchAnalysisStream,
   fetchBboxChildAnalysis,
+  buildAnalysisRequest,
   generatePrompts as generatePromptsApi,
+  AnalysisError,
+  DEFAULT_RETRY_POLICY,
+  supportsExtraImages,
+  type ExtraImage,
 } from './services/api';
-import { getFullPromptText } from './services/api';
+import { getFullPromptText, splitReasoning } from './services/api';
+import { configureScheduler, scheduleRequest, type ScheduleOptions } from './services/scheduler';
+import { isCacheAvailable, hashImageFile, buildCacheKey, getCachedResponse, putCachedResponse } from './services/cache';
+import { preprocessImage, describePreprocessing, cropRegions, DEFAULT_PREPROCESSING, DEFAULT_CROP_OPTIONS } from './services/preprocess';
+import { computeTiles, remapBoxFromTile, nonMaxSuppression } from './services/tiling';
+import { normalizeBoxes, describeCoordinateFormat, DEFAULT_COORDINATE_FORMAT } from './services/coordinates';
+import { getSampleCount, aggregateSamples } from './services/sampling';
+import { averageProbabilities } from './services/logprobs';
+import { createTemplateContext, findUnresolved, getReferencedPromptIds, type TemplateContext } from './services/templates';
+import { describeCategoryMatching, isCategoryConditionMet, getSelectionError } from './services/categories';
+import { parseYesNo, getYesNoAnswer } from './services/yesNo';
+import { isObjectParent, getParentObjects } from './services/polygons';
 
 type ImageObject = {
   id: string;
@@ -26,11 +63,14 @@ interface AppState {
   // Image state
   images: ImageObject[];
   selectedImageId: string | null;
-  imageBase64s: Record<string, string>;
+  // Images as sent to the model, keyed by image id and then by preprocessing variant.
+  processedImages: Record<string, Record<string, ProcessedImage>>;
   analysisStates: Record<string, AnalysisStatus>;
 
   // Prompt state
   prompts: Prompt[];
+  systemPrompt: string; // Prompt-set level, sent before each prompt's own system prompt
+  templateVariables: TemplateVariable[]; // Prompt-set level {{name}} values
 
   // Results state
   results: Record<string, Record<string, AnalysisResult[]>>;
@@ -41,16 +81,19 @@ interface AppState {
   analysisProgress: { current: number, total: number } | null;
   runningSinglePrompts: Set<string>;
   abortControllers: Record<string, AbortController>;
+  bypassCache: boolean;
+  comparison: ComparisonRun | null;
 
   // Region Selection state
   regionSelection: { promptId: string | null; type: 'point' | 'bbox' | null };
 
   // Settings
-  apiEndpoint: string;
-  modelName: string;
-  apiKey: string;
-  temperature?: number;
-  maxTokens?: number;
+  profiles: ModelProfile[];
+  defaultProfileId: string;
+  promptGenerationProfileId?: string;
+  retryPolicy: RetryPolicy;
+  concurrency: ConcurrencyLimits;
+  preprocessing: PreprocessingOptions;
   theme: 'light' | 'dark';
   apiInspectorMode: boolean;
 
@@ -66,30 +109,42 @@ interface AppState {
   deletePrompt: (id: string) => void;
   dropPrompt: (draggedId: string, targetId: string) => void;
   setPrompts: (prompts: Prompt[]) => void;
+  setSystemPrompt: (systemPrompt: string) => void;
+  setTemplateVariables: (variables: TemplateVariable[]) => void;
 
   runSingleAnalysisFlow: (prompt: Prompt) => void;
   runPendingAnalysis: () => void;
   runAllImagesAnalysis: () => void;
+  setBypassCache: (bypass: boolean) => void;
   sendFollowUp: (promptId: string, question: string) => Promise<void>;
   generatePrompts: (goal: string, numPrompts: number, includeImage: boolean, allowedTypes: ResultType[], replace: boolean) => Promise<void>;
+  runComparison: (profileIds: string[], imageIds: string[]) => Promise<void>;
+  cancelComparison: () => void;
+  clearComparison: () => void;
   
   setOverlayVisibility: (imageId: string, visibility: Record<string, boolean>) => void;
 
   toggleTheme: () => void;
-  saveSettings: (endpoint: string, model: string, apiKey: string, maxTokens?: number, temperature?: number, apiInspectorMode?: boolean) => void;
+  saveSettings: (settings: ApiSettings) => void;
 
   startRegionSelection: (promptId: string, type: 'point' | 'bbox') => void;
   cancelRegionSelection: () => void;
   completeRegionSelection: (coords: [number, number] | [number, number, number, number]) => void;
 }
 
-const fileToBase64 = (file: File): Promise<string> =>
-  new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = (error) => reject(error);
-  });
+const DEFAULT_PROFILE: ModelProfile = {
+  id: 'default',
+  name: 'Default',
+  provider: 'openai',
+  apiEndpoint: 'http://127.0.0.1:1234/v1/chat/completions',
+  modelName: 'qwen3-vl-30b-a3b-thinking',
+  apiKey: '',
+  structuredOutput: false,
+  coordinateFormat: DEFAULT_COORDINATE_FORMAT,
+};
+
+// Comparison runs share one controller, stored next to the per-prompt ones.
+const COMPARISON_ABORT_KEY = 'comparison';
 
 const DEFAULT_PROMPTS: Prompt[] = [
   { id: '1', text: 'Describe this image in detail.', type: ResultType.Text },
@@ -105,23 +160,28 @@ export const useAppStore = create<AppState>()(
       // State
       images: [],
       selectedImageId: null,
-      imageBase64s: {},
+      processedImages: {},
       analysisStates: {},
       prompts: DEFAULT_PROMPTS,
+      systemPrompt: '',
+      templateVariables: [],
       results: {},
       overlayVisibility: {},
       isAnalyzing: false,
       analysisProgress: null,
       runningSinglePrompts: new Set(),
       abortControllers: {},
+      bypassCache: false,
+      comparison: null,
       regionSelection: { promptId: null, type: null },
       
       // Settings
-      apiEndpoint: 'http://127.0.0.1:1234/v1/chat/completions',
-      modelName: 'qwen3-vl-30b-a3b-thinking',
-      apiKey: '',
-      temperature: undefined,
-      maxTokens: undefined,
+      profiles: [DEFAULT_PROFILE],
+      defaultProfileId: DEFAULT_PROFILE.id,
+      promptGenerationProfileId: undefined,
+      preprocessing: DEFAULT_PREPROCESSING,
+      retryPolicy: DEFAULT_RETRY_POLICY,
+      concurrency: { global: 4, perEndpoint: 2 },
       theme: 'dark',
       apiInspectorMode: false,
 
@@ -163,7 +223,7 @@ export const useAppStore = create<AppState>()(
       },
 
       removeImage: (imageIdToRemove) => {
-        const { images, selectedImageId, results, imageBase64s, overlayVisibility, analysisStates } = get();
+        const { images, selectedImageId, results, processedImages, overlayVisibility, analysisStates } = get();
         const imageToRemove = images.find(img => img.id === imageIdToRemove);
         if (imageToRemove) {
           URL.revokeObjectURL(imageToRemove.url);
@@ -180,7 +240,7 @@ export const useAppStore = create<AppState>()(
           images: remainingImages,
           selectedImageId: selectedImageId === imageIdToRemove ? (remainingImages.length > 0 ? remainingImages[0].id : null) : selectedImageId,
           results: cleanupState(results),
-          imageBase64s: cleanupState(imageBase64s),
+          processedImages: cleanupState(processedImages),
           overlayVisibility: cleanupState(overlayVisibility),
           analysisStates: cleanupState(analysisStates),
         });
@@ -197,13 +257,15 @@ export const useAppStore = create<AppState>()(
         }
 
         images.forEach(img => URL.revokeObjectURL(img.url));
+        Object.values(get().abortControllers).forEach(controller => controller.abort('Reset'));
         set({
           images: [],
           selectedImageId: null,
-          imageBase64s: {},
+          processedImages: {},
           results: {},
           overlayVisibility: {},
           analysisStates: {},
+          comparison: null,
         });
       },
 
@@ -225,6 +287,10 @@ export const useAppStore = create<AppState>()(
             const [min, max] = parentPrompt.scoreRange || [0, 10];
             newPrompt.scoreConditionValue = (min + max) / 2;
           }
+          if (parentPrompt.type === ResultType.MultiCategory) {
+            newPrompt.categoryConditionOperator = 'any';
+            newPrompt.categoryConditionValues = [];
+          }
         }
         set({ prompts: [...prompts, newPrompt] });
       },
@@ -294,6 +360,67 @@ export const useAppStore = create<AppState>()(
       },
 
       setPrompts: (prompts) => set({ prompts }),
+      setSystemPrompt: (systemPrompt) => set({ systemPrompt }),
+      setTemplateVariables: (templateVariables) => set({ templateVariables }),
+
+      runComparison: async (profileIds, imageIds) => {
+        const { prompts, profiles, abortControllers } = get();
+        abortControllers[COMPARISON_ABORT_KEY]?.abort('New comparison started');
+        const comparedProfiles = profileIds.map(id => profiles.find(p => p.id === id)).filter((p): p is ModelProfile => !!p);
+        // Conditional prompts depend on their parent's answer, which differs per model, so only top-level prompts are compared.
+        const comparedPrompts = prompts.filter(p => !p.parentId && p.text.trim());
+        const cells = imageIds.flatMap(imageId => comparedPrompts.flatMap(prompt => comparedProfiles.map(profile => ({ imageId, prompt, profile }))));
+        if (comparedProfiles.length < 2 || cells.length === 0) return;
+
+        const controller = new AbortController();
+        set(state => ({
+          abortControllers: { ...state.abortControllers, [COMPARISON_ABORT_KEY]: controller },
+          comparison: {
+            profiles: comparedProfiles.map(snapshotProfile),
+            promptIds: comparedPrompts.map(p => p.id),
+            imageIds,
+            results: {},
+            status: 'running',
+            progress: { current: 0, total: cells.length },
+          },
+        }));
+
+        const updateComparison = (updater: (run: ComparisonRun) => ComparisonRun) => {
+          if (controller.signal.aborted) return;
+          set(state => state.comparison ? { comparison: updater(state.comparison) } : {});
+        };
+
+        await Promise.all(cells.map(async ({ imageId, prompt, profile }) => {
+          const result = await runComparisonCell(prompt, imageId, profile, controller.signal);
+          if (!result) return;
+          updateComparison(run => ({
+            ...run,
+            results: {
+              ...run.results,
+              [imageId]: {
+                ...(run.results[imageId] || {}),
+                [prompt.id]: { ...(run.results[imageId]?.[prompt.id] || {}), [profile.id]: result },
+              },
+            },
+            progress: { ...run.progress, current: run.progress.current + 1 },
+          }));
+        }));
+
+        updateComparison(run => ({ ...run, status: 'done' }));
+        const { [COMPARISON_ABORT_KEY]: finished, ...remainingControllers } = get().abortControllers;
+        if (finished === controller) set({ abortControllers: remainingControllers });
+      },
+
+      cancelComparison: () => {
+        const { abortControllers, comparison } = get();
+        abortControllers[COMPARISON_ABORT_KEY]?.abort('Comparison cancelled');
+        if (comparison?.status === 'running') set({ comparison: { ...comparison, status: 'cancelled' } });
+      },
+
+      clearComparison: () => {
+        get().abortControllers[COMPARISON_ABORT_KEY]?.abort('Comparison closed');
+        set({ comparison: null });
+      },
 
       setOverlayVisibility: (imageId, visibility) => {
         set(state => ({
@@ -305,8 +432,24 @@ export const useAppStore = create<AppState>()(
       },
 
       toggleTheme: () => set(state => ({ theme: state.theme === 'light' ? 'dark' : 'light' })),
-      saveSettings: (endpoint, model, apiKey, maxTokens, temperature, apiInspectorMode) => {
-        set({ apiEndpoint: endpoint, modelName: model, apiKey, maxTokens, temperature, apiInspectorMode });
+      saveSettings: (settings) => {
+        const { profiles, defaultProfileId, promptGenerationProfileId, retryPolicy, concurrency, apiInspectorMode, preprocessing } = settings;
+        // Images prepared with the old settings are no longer used, so free them.
+        const preprocessingChanged = JSON.stringify(preprocessing) !== JSON.stringify(get().preprocessing);
+        // Prompts pointing at a deleted profile go back to the default one.
+        const profileIds = new Set(profiles.map(p => p.id));
+        const prompts = get().prompts.map(p => p.profileId && !profileIds.has(p.profileId) ? { ...p, profileId: undefined } : p);
+        set({
+          profiles,
+          defaultProfileId,
+          promptGenerationProfileId: promptGenerationProfileId && profileIds.has(promptGenerationProfileId) ? promptGenerationProfileId : undefined,
+          prompts,
+          retryPolicy: retryPolicy || DEFAULT_RETRY_POLICY,
+          concurrency,
+          apiInspectorMode,
+          preprocessing,
+          ...(preprocessingChanged && { processedImages: {} }),
+        });
       },
       
       startRegionSelection: (promptId, type) => {
@@ -332,13 +475,12 @@ export const useAppStore = create<AppState>()(
       },
 
       generatePrompts: async (goal, numPrompts, includeImage, allowedTypes, replace) => {
-        const { selectedImageId, apiEndpoint, modelName, apiKey, maxTokens, temperature, imageBase64s } = get();
+        const { selectedImageId, promptGenerationProfileId } = get();
+        const config = getApiConfig(resolveProfile(promptGenerationProfileId));
         
         let imageBase64: string | null = null;
         if (includeImage && selectedImageId) {
-          // FIX: Use fileToBase64 instead of undefined getBase64ForImage
-          imageBase64 = imageBase64s[selectedImageId] || await fileToBase64(get().images.find(i => i.id === selectedImageId)!.file);
-          set(state => ({ imageBase64s: { ...state.imageBase64s, [selectedImageId!]: imageBase64! } }));
+          imageBase64 = (await getProcessedImage(selectedImageId)).dataUrl;
         }
 
         const generatedPrompts = await generatePromptsApi({
@@ -346,7 +488,7 @@ export const useAppStore = create<AppState>()(
             numPrompts,
             includeImage,
             imageBase64,
-            config: { apiEndpoint, modelName, apiKey, maxTokens: maxTokens || 4096, temperature },
+            config: { ...config, maxTokens: config.maxTokens || 4096 },
             allowedTypes,
         });
         
@@ -442,13 +584,14 @@ export const useAppStore = create<AppState>()(
         
         const runTasks = async () => {
             const taskList = Array.from(tasksToRun.values());
-            set({ isAnalyzing: true, analysisProgress: { current: 1, total: taskList.length } });
+            let completed = 0;
+            set({ isAnalyzing: true, analysisProgress: { current: 0, total: taskList.length } });
 
-            for (let i = 0; i < taskList.length; i++) {
-                const task = taskList[i];
-                set(state => ({ ...state, analysisProgress: { current: i + 1, total: taskList.length } }));
+            await Promise.all(taskList.map(async task => {
                 await get().runSingleAnalysisFlow(task);
-            }
+                completed++;
+                set({ analysisProgress: { current: completed, total: taskList.length } });
+            }));
 
             set({ isAnalyzing: false, analysisProgress: null });
         };
@@ -462,6 +605,8 @@ export const useAppStore = create<AppState>()(
         runAnalysis(prompts, allImageIds);
       },
 
+      setBypassCache: (bypass) => set({ bypassCache: bypass }),
+
       sendFollowUp: async (promptId, question) => {
         const { selectedImageId, prompts, results } = get();
         if (!selectedImageId) return;
@@ -480,13 +625,40 @@ export const useAppStore = create<AppState>()(
     {
       name: 'local-image-analyst-storage',
       storage: createJSONStorage(() => localStorage),
+      version: 1,
+      // Version 0 stored a single connection at the top level; it becomes the default profile.
+      migrate: (persistedState, version) => {
+        const state = persistedState as any;
+        if (version < 1 && state) {
+          const { provider, apiEndpoint, modelName, apiKey, temperature, maxTokens, structuredOutput, coordinateFormat, ...rest } = state;
+          return {
+            ...rest,
+            profiles: [{
+              ...DEFAULT_PROFILE,
+              ...(provider && { provider }),
+              ...(apiEndpoint && { apiEndpoint }),
+              ...(modelName && { modelName }),
+              apiKey: apiKey || '',
+              temperature,
+              maxTokens,
+              structuredOutput: !!structuredOutput,
+              coordinateFormat: coordinateFormat || DEFAULT_COORDINATE_FORMAT,
+            }],
+            defaultProfileId: DEFAULT_PROFILE.id,
+          };
+        }
+        return state;
+      },
       partialize: (state) => ({
         prompts: state.prompts,
-        apiEndpoint: state.apiEndpoint,
-        modelName: state.modelName,
-        apiKey: state.apiKey,
-        temperature: state.temperature,
-        maxTokens: state.maxTokens,
+        systemPrompt: state.systemPrompt,
+        templateVariables: state.templateVariables,
+        profiles: state.profiles,
+        defaultProfileId: state.defaultProfileId,
+        promptGenerationProfileId: state.promptGenerationProfileId,
+        retryPolicy: state.retryPolicy,
+        concurrency: state.concurrency,
+        preprocessing: state.preprocessing,
         theme: state.theme,
         apiInspectorMode: state.apiInspectorMode,
       }),
@@ -496,7 +668,7 @@ export const useAppStore = create<AppState>()(
         if (state) {
           state.images = [];
           state.selectedImageId = null;
-          state.imageBase64s = {};
+          state.processedImages = {};
           state.results = {};
           state.overlayVisibility = {};
           state.isAnalyzing = false;
@@ -508,8 +680,301 @@ export const useAppStore = create<AppState>()(
   )
 );
 
-async function runSinglePrompt(prompt: Prompt, imageId: string, conversationHistory: { question: string, answer: string }[] = [], followUpQuestion?: string): Promise<AnalysisResult | undefined> {
-    const { apiEndpoint, modelName, apiKey, maxTokens, temperature, abortControllers, imageBase64s, images } = useAppStore.getState();
+configureScheduler({
+    getLimits: () => useAppStore.getState().concurrency,
+    isPreferredImage: (imageId) => imageId === useAppStore.getState().selectedImageId,
+});
+
+// Unknown or deleted profile ids fall back to the default profile.
+function resolveProfile(profileId?: string): ModelProfile {
+    const { profiles, defaultProfileId } = useAppStore.getState();
+    return profiles.find(p => p.id === profileId) || profiles.find(p => p.id === defaultProfileId) || profiles[0];
+}
+
+function getApiConfig(profile: ModelProfile): ApiConfig {
+    const { id, name, ...connection } = profile;
+    return { ...connection, retryPolicy: useAppStore.getState().retryPolicy };
+}
+
+const snapshotProfile = ({ id, name, provider, apiEndpoint, modelName }: ModelProfile): ProfileSnapshot => ({ id, name, provider, apiEndpoint, modelName });
+
+// Resolves to undefined when caching is unavailable (e.g. crypto.subtle outside a secure context).
+// `outputFormat` covers settings that change how an answer is interpreted, such as the bounding box convention.
+async function getResponseCacheKey(imageId: string, variant: string, promptText: string, config: ApiConfig, outputFormat?: string, inputImages: InputImageRef[] = []): Promise<string | undefined> {
+    const { images } = useAppStore.getState();
+    const image = images.find(i => i.id === imageId);
+    if (!image || !isCacheAvailable()) return undefined;
+    try {
+        // The variant is part of the image identity: the same file resized differently is a different input.
+        // Extra images sent along are part of it too.
+        const extraHashes = await Promise.all(inputImages.map(async ref => `${ref.kind}:${await hashImageFile(images.find(i => i.id === ref.imageId)!.file)}`));
+        const imageHash = [`${await hashImageFile(image.file)}|${variant}`, ...extraHashes].join('|');
+        return await buildCacheKey({ imageHash, promptText, modelName: config.modelName, temperature: config.temperature, maxTokens: config.maxTokens, outputFormat });
+    } catch (error) {
+        console.warn("Could not compute response cache key:", error);
+        return undefined;
+    }
+}
+
+async function getPromptCacheKey(prompt: Prompt, imageId: string, config: ApiConfig, inputImages: InputImageRef[] = []): Promise<string | undefined> {
+    const { preprocessing } = useAppStore.getState();
+    const tiling = prompt.type === ResultType.BoundingBox && prompt.tiling?.enabled ? prompt.tiling : undefined;
+    const imageVariant = tiling
+        ? `${describePreprocessing(preprocessing, true)}|tiles ${tiling.rows}x${tiling.cols} ${tiling.overlap} ${tiling.iouThreshold}`
+        : describePreprocessing(preprocessing, prompt.fullResolution);
+    const sampleCount = getSampleCount(prompt);
+    const outputFormat = [
+        prompt.type === ResultType.BoundingBox && describeCoordinateFormat(config.coordinateFormat),
+        sampleCount > 1 && `samples ${sampleCount}`,
+        (prompt.type === ResultType.Category || prompt.type === ResultType.MultiCategory) && `categories ${describeCategoryMatching(prompt)}`,
+        prompt.type === ResultType.JSON && prompt.schemaViolationPolicy === 'retry' && 'schema retry',
+    ].filter(Boolean).join('|') || undefined;
+    // The system prompt and examples shape the answer as much as the question does.
+    const promptText = [composeSystemPrompt(prompt), ...(prompt.examples || []).map(e => `${e.answer}\n${e.image}`), getFullPromptText(prompt, buildTemplateContext(prompt, imageId))]
+        .filter(Boolean)
+        .join('\n\n');
+    return getResponseCacheKey(imageId, imageVariant, promptText, config, outputFormat, inputImages);
+}
+
+// Answers of other prompts on the same image, the image itself and the set's variables.
+function buildTemplateContext(prompt: Prompt, imageId: string): TemplateContext {
+    const { images, prompts, results, processedImages, templateVariables } = useAppStore.getState();
+    return createTemplateContext({
+        prompt,
+        prompts,
+        imageResults: results[imageId],
+        fileName: images.find(i => i.id === imageId)?.file.name,
+        // Every variant knows the original size through its scale.
+        imageScale: Object.values(processedImages[imageId] || {})[0],
+        variables: templateVariables,
+    });
+}
+
+// Sending a literal {{placeholder}} would only confuse the model.
+function assertTemplateResolved(prompt: Prompt, context: TemplateContext) {
+    const unresolved = findUnresolved(prompt.text, context);
+    if (unresolved.length > 0) throw new Error(`No value for ${unresolved.join(', ')} on this image.`);
+}
+
+const composeSystemPrompt = (prompt: Prompt): string | undefined =>
+    [useAppStore.getState().systemPrompt, prompt.systemPrompt].map(text => text?.trim()).filter(Boolean).join('\n\n') || undefined;
+
+// Picks the gallery images a prompt sends after the analyzed one. Throws when one of them is missing.
+function resolveInputImages(prompt: Prompt, imageId: string): InputImageRef[] {
+    const { images, prompts } = useAppStore.getState();
+    if (!supportsExtraImages(prompt, prompts.find(p => p.id === prompt.parentId))) return [];
+    const index = images.findIndex(i => i.id === imageId);
+    return (prompt.extraImages || []).map(input => {
+        const image = input.kind === 'previous' ? images[index - 1]
+            : input.kind === 'next' ? images[index + 1]
+            : images.find(i => i.file.name === input.imageName);
+        if (!image) {
+            throw new Error(input.kind === 'reference'
+                ? `The reference image "${input.imageName}" is not in the gallery.`
+                : `There is no ${input.kind} image in the gallery for this prompt.`);
+        }
+        return { kind: input.kind, imageId: image.id, name: image.file.name };
+    });
+}
+
+// Extra images go through the same preprocessing as the analyzed one.
+const loadInputImages = (prompt: Prompt, inputImages: InputImageRef[]): Promise<ExtraImage[]> =>
+    Promise.all(inputImages.map(async ref => ({ ...ref, dataUrl: (await getProcessedImage(ref.imageId, prompt.fullResolution)).dataUrl })));
+
+const processingJobs = new Map<string, Promise<ProcessedImage>>();
+
+// Resizes and re-encodes an image once per preprocessing variant; concurrent callers share the same job.
+async function getProcessedImage(imageId: string, fullResolution = false): Promise<ProcessedImage> {
+    const { images, preprocessing, processedImages } = useAppStore.getState();
+    const variant = describePreprocessing(preprocessing, fullResolution);
+    const existing = processedImages[imageId]?.[variant];
+    if (existing) return existing;
+
+    const jobKey = `${imageId}|${variant}`;
+    let job = processingJobs.get(jobKey);
+    if (!job) {
+        job = preprocessImage(images.find(i => i.id === imageId)!.file, preprocessing, fullResolution).then(processed => {
+            // Skip images that were removed while they were being processed.
+            if (useAppStore.getState().images.some(i => i.id === imageId)) {
+                useAppStore.setState(state => ({
+                    processedImages: { ...state.processedImages, [imageId]: { ...(state.processedImages[imageId] || {}), [variant]: processed } }
+                }));
+            }
+            return processed;
+        }).finally(() => processingJobs.delete(jobKey));
+        processingJobs.set(jobKey, job);
+    }
+    return job;
+}
+
+interface AnalysisOutcome {
+    parsedData: any;
+    rawResponse: any;
+    requestPayload: any;
+    attempts?: AnalysisAttempt[];
+    metrics?: RequestMetrics;
+    tiles?: TileResult[];
+    boxFormat?: BoxFormatReport;
+    reasoning?: string;
+    sampling?: SamplingSummary;
+    answerProbabilities?: Record<string, number>;
+    categoryMatch?: CategoryMatch;
+    schemaViolations?: SchemaViolation[];
+    yesNoAnswer?: YesNoAnswer;
+}
+
+function mergeBoxFormatReports(reports: (BoxFormatReport | undefined)[]): BoxFormatReport | undefined {
+    const first = reports.find(r => r);
+    if (!first) return undefined;
+    const warnings = reports.flatMap((report, index) => (report?.warnings || []).map(warning => `Tile ${index + 1}: ${warning}`));
+    return { ...first, warnings };
+}
+
+// Runs a Bounding Box prompt once per overlapping tile of the full-resolution image, maps every tile's
+// boxes back onto the full canvas and merges duplicates from the overlaps.
+async function runTiledDetection(prompt: Prompt, imageId: string, config: ApiConfig, signal: AbortSignal): Promise<AnalysisOutcome> {
+    const tiling = prompt.tiling!;
+    const { preprocessing } = useAppStore.getState();
+    const source = await getProcessedImage(imageId, true);
+    // Each tile gets the size budget of a whole image, which is where the extra detail comes from.
+    const maxLongEdge = preprocessing.enabled && preprocessing.maxLongEdge > 0 ? preprocessing.maxLongEdge : undefined;
+    const crops = await cropRegions(source.dataUrl, computeTiles(tiling), { padding: 0, minSize: 0, maxLongEdge }, preprocessing);
+    if (!crops) throw new Error("Tiled detection is not supported in this browser (OffscreenCanvas is unavailable).");
+
+    const outcomes = await Promise.allSettled(crops.map(crop => scheduleRequest(
+        () => fetchAnalysis({ prompt, imageBase64: crop.dataUrl, systemPrompt: composeSystemPrompt(prompt), templateContext: buildTemplateContext(prompt, imageId), config, signal }),
+        { endpoint: config.apiEndpoint, imageId, signal },
+    )));
+    if (signal.aborted) throw new DOMException('Aborted', 'AbortError');
+
+    const reports: (BoxFormatReport | undefined)[] = [];
+    const tiles: TileResult[] = outcomes.map((outcome, index) => {
+        const region = crops[index].region;
+        if (outcome.status === 'rejected') return { region, boxes: [], error: (outcome.reason as Error).message };
+        // Each tile is its own image to the model, so pixel coordinates refer to the tile.
+        const { boxes, report } = normalizeBoxes(outcome.value.parsedData, config.coordinateFormat, crops[index], config.modelName);
+        reports[index] = report;
+        return { region, boxes: boxes.map(b => remapBoxFromTile(b, region)), metrics: outcome.value.metrics };
+    });
+    const failedTiles = tiles.filter(t => t.error);
+    if (failedTiles.length === tiles.length) throw new Error(`All ${tiles.length} tiles failed. First error: ${failedTiles[0].error}`);
+
+    const perTile = (pick: (value: Awaited<ReturnType<typeof fetchAnalysis>>) => any) =>
+        outcomes.map(outcome => outcome.status === 'fulfilled' ? pick(outcome.value) : null);
+    return {
+        parsedData: nonMaxSuppression(tiles.flatMap(t => t.boxes), tiling.iouThreshold),
+        rawResponse: { type: 'tiled', tiles: perTile(value => value.rawResponse) },
+        reasoning: perTile(value => value.reasoning)
+            .map((text, index) => text && `Tile ${index + 1}:\n${text}`)
+            .filter(Boolean)
+            .join('\n\n') || undefined,
+        requestPayload: { type: 'tiled', tiles: perTile(value => value.requestPayload) },
+        tiles,
+        boxFormat: mergeBoxFormatReports(reports),
+    };
+}
+
+// The analyzed image plus any extra images the prompt sends after it.
+type AnalysisImage = ProcessedImage & { extraImages?: ExtraImage[] };
+
+// One non-streamed answer, tiled for detection prompts that ask for it, with boxes normalized.
+// Comparison runs send Text prompts this way too.
+async function analyzeStructured(prompt: Prompt, imageId: string, config: ApiConfig, image: AnalysisImage, scheduleOptions: ScheduleOptions, signal: AbortSignal): Promise<AnalysisOutcome> {
+    const sampleCount = getSampleCount(prompt);
+    const outcome = sampleCount > 1
+        ? await analyzeSampled(prompt, imageId, config, image, scheduleOptions, signal, sampleCount)
+        : await analyzeOnce(prompt, imageId, config, image, scheduleOptions, signal);
+    if (prompt.type === ResultType.YesNo) outcome.yesNoAnswer = parseYesNo(String(outcome.parsedData ?? ''));
+    return outcome;
+}
+
+async function analyzeOnce(prompt: Prompt, imageId: string, config: ApiConfig, image: AnalysisImage, scheduleOptions: ScheduleOptions, signal: AbortSignal): Promise<AnalysisOutcome> {
+    const { dataUrl: imageBase64, extraImages, ...imageScale } = image;
+    if (prompt.type === ResultType.BoundingBox && prompt.tiling?.enabled) {
+        return runTiledDetection(prompt, imageId, config, signal);
+    }
+    const outcome: AnalysisOutcome = await scheduleRequest(
+        () => fetchAnalysis({ prompt, imageBase64, extraImages, systemPrompt: composeSystemPrompt(prompt), templateContext: buildTemplateContext(prompt, imageId), config, signal }),
+        scheduleOptions,
+    );
+    if (prompt.type === ResultType.BoundingBox) {
+        const { boxes, report } = normalizeBoxes(outcome.parsedData, config.coordinateFormat, imageScale, config.modelName);
+        outcome.parsedData = boxes;
+        outcome.boxFormat = report;
+    }
+    return outcome;
+}
+
+// Cached answers cost nothing, so they carry no request metrics.
+const withoutSampleMetrics = (sampling?: SamplingSummary): SamplingSummary | undefined => sampling && { ...sampling, sampleMetrics: undefined };
+
+// Answers shown as invalid are not cached, so a rerun asks the model again instead of replaying them.
+const isCacheableOutcome = (prompt: Prompt, { parsedData, categoryMatch, schemaViolations }: AnalysisOutcome): boolean => {
+    if (categoryMatch && categoryMatch.value === null) return false;
+    if (schemaViolations && schemaViolations.length > 0) return false;
+    if (prompt.type === ResultType.MultiCategory && prompt.categories?.some(c => c.trim()) && Array.isArray(parsedData)) {
+        return getSelectionError(prompt, parsedData) === null;
+    }
+    return true;
+};
+
+// Self-consistency: the samples are queued like separate requests and aggregated into one answer.
+// Failed samples are left out as long as one succeeds.
+async function analyzeSampled(prompt: Prompt, imageId: string, config: ApiConfig, image: AnalysisImage, scheduleOptions: ScheduleOptions, signal: AbortSignal, sampleCount: number): Promise<AnalysisOutcome> {
+    const outcomes = await Promise.allSettled(Array.from({ length: sampleCount }, () => analyzeOnce(prompt, imageId, config, image, scheduleOptions, signal)));
+    if (signal.aborted) throw new DOMException('Aborted', 'AbortError');
+    const samples = outcomes.flatMap(outcome => outcome.status === 'fulfilled' ? [outcome.value] : []);
+    if (samples.length === 0) throw (outcomes[0] as PromiseRejectedResult).reason;
+
+    const { data, summary } = aggregateSamples(prompt, samples.map(s => s.parsedData), sampleCount);
+    summary.sampleMetrics = samples.flatMap(s => s.metrics ? [s.metrics] : (s.tiles || []).flatMap(t => t.metrics ? [t.metrics] : []));
+    return {
+        parsedData: data,
+        rawResponse: { type: 'samples', samples: samples.map(s => s.rawResponse) },
+        requestPayload: samples[0].requestPayload,
+        boxFormat: samples[0].boxFormat,
+        reasoning: samples
+            .map((s, index) => s.reasoning && `Sample ${index + 1}:\n${s.reasoning}`)
+            .filter(Boolean)
+            .join('\n\n') || undefined,
+        sampling: summary,
+        answerProbabilities: averageProbabilities(samples.map(s => s.answerProbabilities)),
+        categoryMatch: samples.find(s => s.parsedData === data)?.categoryMatch,
+    };
+}
+
+// Runs one prompt on one image with a given profile without touching the regular results.
+// Resolves to undefined when the comparison was cancelled.
+async function runComparisonCell(prompt: Prompt, imageId: string, activeProfile: ModelProfile, signal: AbortSignal): Promise<AnalysisResult | undefined> {
+    const config = getApiConfig(activeProfile);
+    const profile = snapshotProfile(activeProfile);
+    try {
+        const image = await getProcessedImage(imageId, prompt.fullResolution);
+        const { dataUrl, ...imageScale } = image;
+        const inputImages = resolveInputImages(prompt, imageId);
+        assertTemplateResolved(prompt, buildTemplateContext(prompt, imageId));
+        const cacheKey = await getPromptCacheKey(prompt, imageId, config, inputImages);
+        const cached = cacheKey && !useAppStore.getState().bypassCache ? await getCachedResponse(cacheKey) : undefined;
+        if (cached) {
+            return { promptId: prompt.id, status: 'success', data: cached.data, rawResponse: cached.rawResponse, boxFormat: cached.boxFormat, reasoning: cached.reasoning, sampling: cached.sampling, answerProbabilities: cached.answerProbabilities, categoryMatch: cached.categoryMatch, schemaViolations: cached.schemaViolations, yesNoAnswer: cached.yesNoAnswer, cacheHit: true, imageScale, inputImages, profile };
+        }
+        const extraImages = await loadInputImages(prompt, inputImages);
+        const outcome = await analyzeStructured(prompt, imageId, config, { ...image, extraImages }, { endpoint: config.apiEndpoint, imageId, signal }, signal);
+        const { parsedData, rawResponse, requestPayload, attempts, metrics, tiles, boxFormat, reasoning, sampling, answerProbabilities, categoryMatch, schemaViolations, yesNoAnswer } = outcome;
+        if (cacheKey && isCacheableOutcome(prompt, outcome)) void putCachedResponse(cacheKey, { data: parsedData, rawResponse, boxFormat, reasoning, sampling: withoutSampleMetrics(sampling), answerProbabilities, categoryMatch, schemaViolations, yesNoAnswer });
+        return { promptId: prompt.id, status: 'success', data: parsedData, requestPayload, rawResponse, attempts, metrics, imageScale, tiles, boxFormat, reasoning, sampling, answerProbabilities, categoryMatch, schemaViolations, yesNoAnswer, inputImages, profile };
+    } catch (error) {
+        if ((error as Error).name === 'AbortError' || signal.aborted) return undefined;
+        const attempts = error instanceof AnalysisError ? error.attempts : undefined;
+        return { promptId: prompt.id, status: 'error', data: null, error: (error as Error).message, attempts, profile };
+    }
+}
+
+async function runSinglePrompt(prompt: Prompt, imageId: string, conversationHistory: ConversationTurn[] = [], followUpQuestion?: string): Promise<AnalysisResult | undefined> {
+    const { abortControllers, bypassCache } = useAppStore.getState();
+    const activeProfile = resolveProfile(prompt.profileId);
+    const config = getApiConfig(activeProfile);
+    const profile = snapshotProfile(activeProfile);
     const isFollowUp = !!followUpQuestion;
     const abortKey = `${imageId}-${prompt.id}`;
 
@@ -535,46 +1000,30 @@ async function runSinglePrompt(prompt: Prompt, imageId: string, conversationHist
       });
     };
     
-    const getPayload = (fullPromptText: string, imageBase64: string) => {
-        const messages: any[] = [{
-            role: "user",
-            content: [
-                { type: "text", text: fullPromptText },
-                { type: "image_url", image_url: { url: imageBase64 } }
-            ]
-        }];
-
-        if (isFollowUp) {
-             conversationHistory.forEach((turn, index) => {
-                if (index === 0 && turn.question === fullPromptText) {} 
-                else { messages.push({ role: "user", content: turn.question }); }
-                messages.push({ role: "assistant", content: turn.answer });
-            });
-            messages.push({ role: "user", content: followUpQuestion });
-        }
-
-        const body: any = {
-            model: modelName,
-            messages,
-            stream: prompt.type === ResultType.Text,
-        };
-        if (maxTokens) body.max_tokens = maxTokens;
-        if (temperature !== undefined) body.temperature = temperature;
-
-        return body;
+    const showBoxOverlay = (data: any) => {
+        if (!isObjectParent(prompt)) return;
+        useAppStore.setState(state => ({
+            overlayVisibility: { ...state.overlayVisibility, [imageId]: { ...(state.overlayVisibility[imageId] || {}), [prompt.id]: (data as unknown[]).length > 0 } }
+        }));
     };
-
-
+    
     if (!isFollowUp) {
       useAppStore.setState(state => ({ runningSinglePrompts: new Set(state.runningSinglePrompts).add(prompt.id) }));
     }
 
+    // Failures before the placeholder exists (e.g. a missing extra image) must not replace an earlier result.
+    let hasPlaceholder = false;
     try {
-        const imageBase64 = imageBase64s[imageId] || await fileToBase64(images.find(i => i.id === imageId)!.file);
-        useAppStore.setState(state => ({ imageBase64s: { ...state.imageBase64s, [imageId]: imageBase64 } }));
+        const { dataUrl: imageBase64, ...imageScale } = await getProcessedImage(imageId, prompt.fullResolution);
+        const resolvedInputs = resolveInputImages(prompt, imageId);
+        const inputImages = resolvedInputs.length > 0 ? resolvedInputs : undefined;
+        const extraImages = await loadInputImages(prompt, resolvedInputs);
 
-        const fullPromptText = getFullPromptText(prompt);
-        const requestPayload = getPayload(fullPromptText, imageBase64);
+        const templateContext = buildTemplateContext(prompt, imageId);
+        assertTemplateResolved(prompt, templateContext);
+        const fullPromptText = getFullPromptText(prompt, templateContext);
+        const systemPrompt = composeSystemPrompt(prompt);
+        const requestPayload = buildAnalysisRequest({ prompt, imageBase64, extraImages, systemPrompt, templateContext, config, conversationHistory, followUpQuestion }, { stream: prompt.type === ResultType.Text }).body;
 
         if (isFollowUp) {
             updateResultHistory(prev => {
@@ -588,41 +1037,85 @@ async function runSinglePrompt(prompt: Prompt, imageId: string, conversationHist
                 return newHistory;
             });
         } else {
-            const newResult: AnalysisResult = { promptId: prompt.id, status: 'loading', data: null, requestPayload };
+            const newResult: AnalysisResult = { promptId: prompt.id, status: 'loading', data: null, requestPayload, inputImages, profile };
             updateResultHistory(prev => [...prev, newResult]);
         }
-        
-        if (prompt.type === ResultType.Text) {
-            const stream = fetchAnalysisStream({
-                prompt, imageBase64, config: { apiEndpoint, modelName, apiKey, maxTokens, temperature },
-                conversationHistory, followUpQuestion, signal: controller.signal,
-            });
+        hasPlaceholder = true;
+
+        // Follow-ups depend on the conversation so far and are never cached.
+        const cacheKey = isFollowUp ? undefined : await getPromptCacheKey(prompt, imageId, config, resolvedInputs);
+        const cached = cacheKey && !bypassCache ? await getCachedResponse(cacheKey) : undefined;
+        if (cached) {
+            showBoxOverlay(cached.data);
+            const answer = typeof cached.data === 'string' ? cached.data : JSON.stringify(cached.data);
+            const cachedResult: AnalysisResult = { promptId: prompt.id, status: 'success', data: cached.data, conversationHistory: [{ question: fullPromptText, answer }], requestPayload, rawResponse: cached.rawResponse, boxFormat: cached.boxFormat, reasoning: cached.reasoning, sampling: cached.sampling, answerProbabilities: cached.answerProbabilities, categoryMatch: cached.categoryMatch, schemaViolations: cached.schemaViolations, yesNoAnswer: cached.yesNoAnswer, cacheHit: true, imageScale, inputImages, profile };
+            updateResultHistory(prev => prev.slice(0, -1).concat(cachedResult));
+            return cachedResult;
+        }
 
+        const scheduleOptions = { endpoint: config.apiEndpoint, imageId, urgent: isFollowUp, signal: controller.signal };
+
+        if (prompt.type === ResultType.Text) {
             let finalResultData = '';
-            for await (const chunk of stream) {
-                if (chunk.type === 'delta') {
-                    finalResultData += chunk.content;
-                    updateResultHistory(prev => {
-                        const newHistory = [...prev];
-                        if (newHistory.length > 0) {
-                            const lastResult = { ...newHistory[newHistory.length - 1] };
-                            if (isFollowUp) {
-                                const newConvHistory = [...(lastResult.conversationHistory || [])];
-                                if (newConvHistory.length > 0) newConvHistory[newConvHistory.length - 1].answer += chunk.content;
-                                lastResult.conversationHistory = newConvHistory;
-                            } else {
-                                lastResult.data = (lastResult.data as string || '') + chunk.content;
+            let streamedReasoning = '';
+            let attempts: AnalysisAttempt[] | undefined;
+            let metrics: RequestMetrics | undefined;
+            // The scheduler slot is held until the stream has been fully consumed.
+            await scheduleRequest(async () => {
+                const stream = fetchAnalysisStream({
+                    prompt, imageBase64, extraImages, systemPrompt, templateContext, config,
+                    conversationHistory, followUpQuestion, signal: controller.signal,
+                });
+
+                for await (const chunk of stream) {
+                    if (chunk.type === 'delta') {
+                        finalResultData += chunk.content;
+                        updateResultHistory(prev => {
+                            const newHistory = [...prev];
+                            if (newHistory.length > 0) {
+                                const lastResult = { ...newHistory[newHistory.length - 1] };
+                                if (isFollowUp) {
+                                    const newConvHistory = [...(lastResult.conversationHistory || [])];
+                                    if (newConvHistory.length > 0) newConvHistory[newConvHistory.length - 1].answer += chunk.content;
+                                    lastResult.conversationHistory = newConvHistory;
+                                } else {
+                                    lastResult.data = (lastResult.data as string || '') + chunk.content;
+                                }
+                                newHistory[newHistory.length - 1] = lastResult;
                             }
-                            newHistory[newHistory.length - 1] = lastResult;
-                        }
-                        return newHistory;
-                    });
-                } else if (chunk.type === 'error') { throw new Error(chunk.error); }
-            }
+                            return newHistory;
+                        });
+                    } else if (chunk.type === 'reasoning') {
+                        streamedReasoning += chunk.content;
+                        updateResultHistory(prev => {
+                            const newHistory = [...prev];
+                            if (newHistory.length > 0) {
+                                const lastResult = { ...newHistory[newHistory.length - 1] };
+                                if (isFollowUp) {
+                                    const newConvHistory = [...(lastResult.conversationHistory || [])];
+                                    const lastTurn = newConvHistory[newConvHistory.length - 1];
+                                    if (lastTurn) newConvHistory[newConvHistory.length - 1] = { ...lastTurn, reasoning: (lastTurn.reasoning || '') + chunk.content };
+                                    lastResult.conversationHistory = newConvHistory;
+                                } else {
+                                    lastResult.reasoning = (lastResult.reasoning || '') + chunk.content;
+                                }
+                                newHistory[newHistory.length - 1] = lastResult;
+                            }
+                            return newHistory;
+                        });
+                    } else if (chunk.type === 'done') {
+                        attempts = chunk.attempts;
+                        metrics = chunk.metrics;
+                    }
+                }
+            }, scheduleOptions);
             
-            const finalResultDataTrimmed = finalResultData.trim();
+            // Templates that open the think block inside the prompt stream it as answer text; split it off here.
+            const { content: finalResultDataTrimmed, reasoning } = splitReasoning(finalResultData, streamedReasoning);
+            const rawResponse = { type: 'streamed_text', content: finalResultDataTrimmed };
+            if (cacheKey) void putCachedResponse(cacheKey, { data: finalResultDataTrimmed, rawResponse, reasoning });
             const finalConversation = isFollowUp 
-                ? conversationHistory.concat({ question: followUpQuestion!, answer: finalResultDataTrimmed })
+                ? conversationHistory.concat({ question: followUpQuestion!, answer: finalResultDataTrimmed, reasoning })
                 : [{ question: fullPromptText, answer: finalResultDataTrimmed }];
             
             let finalResultForReturn: AnalysisResult | undefined;
@@ -634,10 +1127,16 @@ async function runSinglePrompt(prompt: Prompt, imageId: string, conversationHist
                 
                 updatedResult.status = 'success';
                 updatedResult.conversationHistory = finalConversation;
-                updatedResult.rawResponse = { type: 'streamed_text', content: finalResultDataTrimmed };
+                updatedResult.rawResponse = rawResponse;
+                updatedResult.attempts = attempts;
 
-                if (!isFollowUp) {
+                if (isFollowUp) {
+                    if (metrics) updatedResult.followUpMetrics = [...(updatedResult.followUpMetrics || []), metrics];
+                } else {
                     updatedResult.data = finalResultDataTrimmed;
+                    updatedResult.reasoning = reasoning;
+                    updatedResult.metrics = metrics;
+                    updatedResult.imageScale = imageScale;
                 }
 
                 newHistory[newHistory.length - 1] = updatedResult;
@@ -649,21 +1148,20 @@ async function runSinglePrompt(prompt: Prompt, imageId: string, conversationHist
             return finalResultForReturn;
 
         } else {
-            const { parsedData: resultData, rawResponse } = await fetchAnalysis({ prompt, imageBase64, config: { apiEndpoint, modelName, apiKey, maxTokens, temperature }, signal: controller.signal });
-            if (prompt.type === ResultType.BoundingBox) {
-                useAppStore.setState(state => ({
-                    overlayVisibility: { ...state.overlayVisibility, [imageId]: { ...(state.overlayVisibility[imageId] || {}), [prompt.id]: (resultData as BoundingBox[]).length > 0 } }
-                }));
-            }
-            const successResult: AnalysisResult = { promptId: prompt.id, status: 'success', data: resultData, conversationHistory: [{ question: fullPromptText, answer: JSON.stringify(resultData) }], requestPayload, rawResponse };
+            const outcome = await analyzeStructured(prompt, imageId, config, { dataUrl: imageBase64, ...imageScale, extraImages }, scheduleOptions, controller.signal);
+            const { parsedData: resultData, rawResponse, requestPayload: sentPayload, attempts, metrics, tiles, boxFormat, reasoning, sampling, answerProbabilities, categoryMatch, schemaViolations, yesNoAnswer } = outcome;
+            if (cacheKey && isCacheableOutcome(prompt, outcome)) void putCachedResponse(cacheKey, { data: resultData, rawResponse, boxFormat, reasoning, sampling: withoutSampleMetrics(sampling), answerProbabilities, categoryMatch, schemaViolations, yesNoAnswer });
+            showBoxOverlay(resultData);
+            const successResult: AnalysisResult = { promptId: prompt.id, status: 'success', data: resultData, conversationHistory: [{ question: fullPromptText, answer: JSON.stringify(resultData) }], requestPayload: sentPayload, rawResponse, attempts, metrics, imageScale, tiles, boxFormat, reasoning, sampling, answerProbabilities, categoryMatch, schemaViolations, yesNoAnswer, inputImages, profile };
             updateResultHistory(prev => prev.slice(0, -1).concat(successResult));
             return successResult;
         }
     } catch (error) {
-        if ((error as Error).name === 'AbortError') { console.log(`Request for prompt ${prompt.id} was aborted.`); return undefined; }
+        if ((error as Error).name === 'AbortError' || controller.signal.aborted) { console.log(`Request for prompt ${prompt.id} was aborted.`); return undefined; }
         console.error("Analysis error for prompt:", prompt.text, error);
-        const errorResult: AnalysisResult = { promptId: prompt.id, status: 'error', data: null, error: (error as Error).message };
-        updateResultHistory(prev => prev.slice(0, -1).concat(errorResult));
+        const { attempts, metrics, reasoning } = error instanceof AnalysisError ? error : {} as Partial<AnalysisError>;
+        const errorResult: AnalysisResult = { promptId: prompt.id, status: 'error', data: null, error: (error as Error).message, attempts, metrics, reasoning, profile };
+        updateResultHistory(prev => (hasPlaceholder ? prev.slice(0, -1) : prev).concat(errorResult));
         return errorResult;
     } finally {
         const { abortControllers } = useAppStore.getState();
@@ -679,15 +1177,22 @@ async function runSinglePrompt(prompt: Prompt, imageId: string, conversationHist
     }
 }
 
+// A probability threshold only applies when the parent's answer came with probabilities; otherwise the answer decides.
+// Probabilities cover yes and no only, so 'uncertain' children always go by the answer.
+function isYesNoConditionMet(child: Prompt, answer: YesNoAnswer, probabilities?: Record<string, number>): boolean {
+    if (!child.condition) return false;
+    if (child.probabilityThreshold !== undefined && probabilities && child.condition !== 'uncertain') return (probabilities[child.condition] ?? 0) > child.probabilityThreshold;
+    return child.condition === answer;
+}
+
 async function handlePromptCompletion(prompt: Prompt, result: AnalysisResult, imageId: string) {
-    const { prompts, results, apiEndpoint, modelName, apiKey, maxTokens, temperature, images, imageBase64s } = useAppStore.getState();
+    const { prompts } = useAppStore.getState();
     const currentImageResults = () => useAppStore.getState().results[imageId] || {};
 
     if (prompt.type === ResultType.YesNo && result.status === 'success' && typeof result.data === 'string') {
-        const answer = result.data.toLowerCase().trim();
-        const conditionMet: 'yes' | 'no' = answer.includes('yes') ? 'yes' : 'no';
-        const childrenToRun = prompts.filter(c => c.parentId === prompt.id && c.condition === conditionMet && (!currentImageResults()[c.id] || currentImageResults()[c.id].length === 0));
-        for (const child of childrenToRun) { await runSinglePrompt(child, imageId); }
+        const conditionMet = getYesNoAnswer(result);
+        const childrenToRun = prompts.filter(c => c.parentId === prompt.id && isYesNoConditionMet(c, conditionMet, result.answerProbabilities) && (!currentImageResults()[c.id] || currentImageResults()[c.id].length === 0));
+        await Promise.all(childrenToRun.map(child => runSinglePrompt(child, imageId)));
     }
 
     if (prompt.type === ResultType.Score && result.status === 'success' && typeof result.data === 'number') {
@@ -702,59 +1207,117 @@ async function handlePromptCompletion(prompt: Prompt, result: AnalysisResult, im
             }
             return false;
         });
-        for (const child of childrenToRun) { await runSinglePrompt(child, imageId); }
+        await Promise.all(childrenToRun.map(child => runSinglePrompt(child, imageId)));
     }
 
-    if (prompt.type === ResultType.BoundingBox && result.status === 'success' && Array.isArray(result.data) && result.data.length > 0) {
-        const bboxes = result.data as BoundingBox[];
+    if (prompt.type === ResultType.MultiCategory && result.status === 'success' && Array.isArray(result.data)) {
+        const selections = result.data as string[];
+        const childrenToRun = prompts.filter(c => c.parentId === prompt.id && isCategoryConditionMet(c, selections) && (!currentImageResults()[c.id] || currentImageResults()[c.id].length === 0));
+        await Promise.all(childrenToRun.map(child => runSinglePrompt(child, imageId)));
+    }
+
+    // Polygon children are asked about each outline's bounding box, Points children about a small square around each point.
+    if (isObjectParent(prompt) && result.status === 'success' && Array.isArray(result.data) && result.data.length > 0) {
+        const bboxes = getParentObjects(prompt, result.data);
         const childrenToRun = prompts.filter(c => c.parentId === prompt.id && (!currentImageResults()[c.id] || currentImageResults()[c.id].length === 0));
         
         if (childrenToRun.length === 0) return;
 
-        const imageBase64 = imageBase64s[imageId] || await fileToBase64(images.find(i => i.id === imageId)!.file);
-        useAppStore.setState(state => ({ imageBase64s: { ...state.imageBase64s, [imageId]: imageBase64 } }));
-        const apiConfig = { apiEndpoint, modelName, apiKey, maxTokens, temperature };
-
-        for (const child of childrenToRun) {
-            const loadingResult: AnalysisResult = { promptId: child.id, status: 'loading', data: [] };
-            useAppStore.setState(state => ({ results: { ...state.results, [imageId]: { ...(state.results[imageId] || {}), [child.id]: [loadingResult] } } }));
-            
-            const childResultsPromises = bboxes.map(bbox => fetchBboxChildAnalysis({ prompt: child, bbox, imageBase64, config: apiConfig }));
-            const resolvedChildResults = await Promise.all(childResultsPromises);
-            const finalChildData = resolvedChildResults.filter(r => r !== null) as BboxChildResult[];
-
-            const successResult: AnalysisResult = { promptId: child.id, status: 'success', data: finalChildData };
-            useAppStore.setState(state => ({ results: { ...state.results, [imageId]: { ...(state.results[imageId] || {}), [child.id]: [successResult] } } }));
-        }
+        await Promise.all(childrenToRun.map(async child => {
+            const childProfile = resolveProfile(child.profileId);
+            const apiConfig = getApiConfig(childProfile);
+            const profile = snapshotProfile(childProfile);
+            const setChildResult = (childResult: AnalysisResult) =>
+                useAppStore.setState(state => ({ results: { ...state.results, [imageId]: { ...(state.results[imageId] || {}), [child.id]: [childResult] } } }));
+
+            // Registered like a top-level prompt, so a new run or a reset cancels the queued and retrying requests.
+            const abortKey = `${imageId}-${child.id}`;
+            useAppStore.getState().abortControllers[abortKey]?.abort('New request initiated');
+            const controller = new AbortController();
+            useAppStore.setState(state => ({ abortControllers: { ...state.abortControllers, [abortKey]: controller } }));
+
+            setChildResult({ promptId: child.id, status: 'loading', data: [], profile });
+            try {
+                const imageBase64 = (await getProcessedImage(imageId, child.fullResolution)).dataUrl;
+                // Box-typed children search the full canvas, so their coordinates stay comparable with the parent's.
+                const crops = child.type === ResultType.BoundingBox
+                    ? null
+                    : await cropRegions(imageBase64, bboxes.map(b => b.box), child.crop || DEFAULT_CROP_OPTIONS, useAppStore.getState().preprocessing);
+                
+                const childResultsPromises = bboxes.map((bbox, index) => scheduleRequest(
+                    () => fetchBboxChildAnalysis({ prompt: child, bbox, imageBase64, systemPrompt: composeSystemPrompt(child), templateContext: buildTemplateContext(child, imageId), config: apiConfig, crop: crops?.[index], signal: controller.signal }),
+                    // Follow-ups on an answer already shown, so they jump the backlog like follow-up questions.
+                    { endpoint: apiConfig.apiEndpoint, imageId, urgent: true, signal: controller.signal },
+                ));
+                const finalChildData: BboxChildResult[] = await Promise.all(childResultsPromises);
+
+                // All objects failing is an error; some failing keeps the answers and notes the failures in `error`.
+                const failed = finalChildData.filter(r => r.error);
+                if (failed.length === finalChildData.length) {
+                    setChildResult({ promptId: child.id, status: 'error', data: finalChildData, error: `All ${failed.length} objects failed: ${failed[0].error}`, profile });
+                } else {
+                    setChildResult({ promptId: child.id, status: 'success', data: finalChildData, error: failed.length > 0 ? `${failed.length} of ${finalChildData.length} objects failed.` : undefined, profile });
+                }
+            } catch (error) {
+                if (controller.signal.aborted) { console.log(`Request for prompt ${child.id} was aborted.`); return; }
+                console.error("Per-object analysis error for prompt:", child.text, error);
+                setChildResult({ promptId: child.id, status: 'error', data: null, error: (error as Error).message, profile });
+            } finally {
+                const { [abortKey]: finished, ...remainingControllers } = useAppStore.getState().abortControllers;
+                if (finished === controller) useAppStore.setState({ abortControllers: remainingControllers });
+            }
+        }));
     }
 }
 
+function findRootPrompt(promptId: string, prompts: Prompt[]): Prompt | undefined {
+    let prompt = prompts.find(p => p.id === promptId);
+    while (prompt?.parentId) prompt = prompts.find(p => p.id === prompt!.parentId);
+    return prompt;
+}
+
 async function runAnalysis(targetPrompts: Prompt[], imageIds: string[]) {
     if (imageIds.length === 0) return;
 
-    useAppStore.setState({ isAnalyzing: true, analysisProgress: { current: 0, total: imageIds.length } });
+    let completed = 0;
+    useAppStore.setState(state => ({
+        isAnalyzing: true,
+        analysisProgress: { current: 0, total: imageIds.length },
+        analysisStates: { ...state.analysisStates, ...Object.fromEntries(imageIds.map(id => [id, 'loading' as AnalysisStatus])) },
+    }));
 
-    for (let i = 0; i < imageIds.length; i++) {
-        const imageId = imageIds[i];
-        useAppStore.setState(state => ({ 
-            analysisProgress: { current: i + 1, total: imageIds.length },
-            analysisStates: { ...state.analysisStates, [imageId]: 'loading' }
-        }));
-        
-        let imageHadError = false;
+    // Every image is queued up front; the request scheduler decides how many requests actually run at once.
+    await Promise.all(imageIds.map(async imageId => {
         const independentPrompts = targetPrompts.filter(p => !p.parentId);
-        
-        for (const p of independentPrompts) {
-            const currentResults = useAppStore.getState().results;
-            if (currentResults[imageId]?.[p.id]?.length > 0) { continue; }
-            const result = await runSinglePrompt(p, imageId);
-            if (result?.status === 'error') { imageHadError = true; }
-            if (result) { await handlePromptCompletion(p, result, imageId); }
-        }
+        const runs = new Map<string, Promise<string | undefined>>();
+
+        // A prompt quoting {{result:<id>}} waits for the top-level prompt that produces that answer (with its
+        // conditional children). `chain` breaks reference cycles; those fail on the missing answer instead.
+        const runPrompt = (p: Prompt, chain: string[] = []): Promise<string | undefined> => {
+            if (!runs.has(p.id)) runs.set(p.id, (async () => {
+                const dependencies = getReferencedPromptIds(p.text)
+                    .map(id => findRootPrompt(id, targetPrompts))
+                    .filter((root): root is Prompt => !!root && root.id !== p.id && !chain.includes(root.id) && independentPrompts.includes(root));
+                await Promise.all(dependencies.map(root => runPrompt(root, [...chain, p.id])));
+
+                const currentResults = useAppStore.getState().results;
+                if (currentResults[imageId]?.[p.id]?.length > 0) { return 'skipped'; }
+                const result = await runSinglePrompt(p, imageId);
+                if (result) { await handlePromptCompletion(p, result, imageId); }
+                return result?.status;
+            })());
+            return runs.get(p.id)!;
+        };
+
+        const outcomes = await Promise.all(independentPrompts.map(p => runPrompt(p)));
+        const imageHadError = outcomes.includes('error');
+
+        completed++;
         useAppStore.setState(state => ({ 
+            analysisProgress: { current: completed, total: imageIds.length },
             analysisStates: { ...state.analysisStates, [imageId]: imageHadError ? 'error' : 'success' }
         }));
-    }
+    }));
 
     useAppStore.setState({ isAnalyzing: false, analysisProgress: null });
-}
\ No newline at end of file
+}
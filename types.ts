@@ -6,6 +6,108 @@ export enum ResultType {
   YesNo = 'yes/no',
   Category = 'category',
   JSON = 'json',
+  Polygon = 'polygon',
+  Points = 'points',
+  MultiCategory = 'multi-category',
+}
+
+export type ProviderType = 'openai' | 'ollama' | 'llamacpp' | 'anthropic';
+
+export interface ApiConfig {
+  provider: ProviderType;
+  apiEndpoint: string;
+  modelName: string;
+  apiKey?: string;
+  maxTokens?: number;
+  temperature?: number;
+  structuredOutput?: boolean; // Ask the server to constrain JSON/BoundingBox answers to a schema
+  retryPolicy?: RetryPolicy;
+  coordinateFormat?: CoordinateFormat; // How the model writes bounding boxes; unset means auto-detect
+}
+
+export type BoxOrder = 'xyxy' | 'yxyx' | 'xywh';
+export type BoxScale = 'normalized_1000' | 'normalized_1' | 'pixels';
+
+export interface CoordinateFormat {
+  order: BoxOrder | 'auto';
+  scale: BoxScale | 'auto';
+}
+
+export interface BoxFormatReport {
+  order: BoxOrder; // The convention the boxes were read with
+  scale: BoxScale;
+  autoDetected: boolean;
+  warnings: string[]; // Signs that the boxes do not follow that convention
+}
+
+export interface RetryPolicy {
+  maxAttempts: number; // Total attempts, including the first one
+  retryMalformed: boolean; // Re-ask with the parse error when the answer can't be parsed
+  retryTransient: boolean; // Retry 429/5xx responses and timeouts with exponential backoff
+  backoffMs: number;
+  timeoutSeconds?: number; // Per attempt; unset means no timeout
+}
+
+export interface AnalysisAttempt {
+  outcome: 'success' | 'malformed' | 'http_error' | 'timeout';
+  error?: string;
+  durationMs: number;
+}
+
+export interface ConcurrencyLimits {
+  global: number;
+  perEndpoint: number;
+}
+
+export interface PreprocessingOptions {
+  enabled: boolean;
+  maxLongEdge: number; // Pixels; 0 keeps the original size
+  format: 'jpeg' | 'webp';
+  quality: number; // Encoder quality, 0-1
+}
+
+// Size of the image the model actually saw, relative to the original file.
+export interface ImageScale {
+  width?: number;
+  height?: number;
+  scaleX: number;
+  scaleY: number;
+}
+
+export interface ProcessedImage extends ImageScale {
+  dataUrl: string;
+}
+
+// A named connection. The retry policy is shared by all profiles.
+export interface ModelProfile extends Omit<ApiConfig, 'retryPolicy'> {
+  id: string;
+  name: string;
+}
+
+// The profile a result was produced with, kept as a snapshot so renamed or deleted profiles stay traceable.
+export type ProfileSnapshot = Pick<ModelProfile, 'id' | 'name' | 'provider' | 'apiEndpoint' | 'modelName'>;
+
+export interface ApiSettings {
+  profiles: ModelProfile[];
+  defaultProfileId: string;
+  promptGenerationProfileId?: string; // Falls back to the default profile
+  retryPolicy: RetryPolicy;
+  concurrency: ConcurrencyLimits;
+  apiInspectorMode: boolean;
+  preprocessing: PreprocessingOptions;
+}
+
+export interface TokenUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  reasoningTokens?: number; // Part of completionTokens
+  reasoningTokensEstimated?: boolean; // Counted from the reasoning text because the server did not report it
+}
+
+export interface RequestMetrics extends TokenUsage {
+  latencyMs: number;
+  timeToFirstTokenMs?: number; // Streamed requests only
+  tokensPerSecond?: number; // Completion tokens over generation time (after the first token when streamed)
 }
 
 export interface Prompt {
@@ -14,13 +116,120 @@ export interface Prompt {
   type: ResultType;
   scoreRange?: [number, number];
   categories?: string[];
+  categorySynonyms?: Record<string, string[]>; // Keyed by category; answers matching a synonym count as that category
+  invalidCategoryPolicy?: 'reask' | 'mark'; // Unset follows the retry policy's re-ask setting
+  minSelections?: number; // For Multi-Category prompts
+  maxSelections?: number; // For Multi-Category prompts
   jsonSchema?: string;
+  schemaViolationPolicy?: 'warn' | 'retry'; // JSON prompts: keep answers that break the schema with warnings (default), or re-ask and fail
   parentId?: string;
-  condition?: 'yes' | 'no'; // For Yes/No parents
+  condition?: YesNoAnswer; // For Yes/No parents
   scoreConditionOperator?: 'above' | 'below'; // For Score parents
   scoreConditionValue?: number; // For Score parents
+  categoryConditionOperator?: 'any' | 'all'; // For Multi-Category parents
+  categoryConditionValues?: string[]; // For Multi-Category parents
   regionType?: 'point' | 'bbox';
   regionCoords?: [number, number] | [number, number, number, number];
+  fullResolution?: boolean; // Skip resizing for this prompt; orientation is still normalized
+  crop?: CropOptions; // For children of Bounding Box, Polygon and Points prompts
+  tiling?: TilingOptions; // For Bounding Box prompts
+  groupPointsByLabel?: boolean; // For Points prompts: color and number the markers per label
+  profileId?: string; // Model profile override; the default profile is used when unset or deleted
+  samples?: number; // Self-consistency: ask this many times and aggregate (Yes/No, Category, Score, Number, Bounding Box)
+  systemPrompt?: string; // Added after the prompt set's system prompt
+  examples?: FewShotExample[]; // Few-shot examples, sent as earlier turns
+  extraImages?: ExtraImageInput[]; // Sent along with the analyzed image, e.g. for before/after comparisons
+  probabilityThreshold?: number; // For Yes/No parents: run only if P(condition) exceeds this (0-1), when the parent has probabilities
+}
+
+export interface TilingOptions {
+  enabled: boolean;
+  rows: number;
+  cols: number;
+  overlap: number; // Fraction of a tile shared with its neighbour, 0-0.5
+  iouThreshold: number; // Boxes with the same label overlapping more than this are merged
+  showTiles?: boolean; // Draw the tile grid on the image viewer
+}
+
+export interface TileResult {
+  region: [number, number, number, number]; // Relative to 1000x1000 canvas
+  boxes: BoundingBox[]; // Already remapped to the full canvas, before merging
+  metrics?: RequestMetrics;
+  error?: string;
+}
+
+// How the samples of a self-consistency prompt were spread. `confidence` is the winning vote share
+// for Yes/No and Category, 1 minus the relative spread for numbers, and the mean box support for boxes.
+export interface SamplingSummary {
+  samples: number; // Requested
+  succeeded: number;
+  confidence: number; // 0-1
+  votes?: Record<string, number>; // Yes/No and Category, keyed by the normalized answer
+  values?: number[]; // Score and Number, one per successful sample
+  mean?: number;
+  median?: number;
+  stdDev?: number;
+  boxSupport?: number[]; // Bounding Box: share of samples that found each merged box, in data order
+  sampleMetrics?: RequestMetrics[];
+}
+
+// How a Yes/No answer was read; refusals and hedges are 'uncertain'.
+export type YesNoAnswer = 'yes' | 'no' | 'uncertain';
+
+// Where a JSON answer breaks its prompt's schema. `path` is a JSON Pointer into the answer, "" for the root.
+export interface SchemaViolation {
+  path: string;
+  message: string;
+}
+
+// How a Category answer was mapped onto the allowed categories, strictest first.
+export interface CategoryMatch {
+  raw: string; // The answer as the model wrote it
+  value: string | null; // The allowed category, null when nothing matched
+  method: 'exact' | 'normalized' | 'synonym' | 'contains' | 'fuzzy' | 'invalid';
+}
+
+export interface FewShotExample {
+  id: string;
+  image: string; // Data URL, downscaled when added since it is stored with the prompt
+  answer: string; // Written exactly as the model should reply
+}
+
+// User-defined {{name}} placeholder, shared by all prompts of a set.
+export interface TemplateVariable {
+  name: string;
+  value: string;
+}
+
+// A saved or exported prompt set. Older sets are stored as a bare Prompt[] array.
+export interface PromptSet {
+  prompts: Prompt[];
+  systemPrompt?: string;
+  variables?: TemplateVariable[];
+}
+
+// An image sent after the analyzed one. Neighbours follow the gallery order; reference images are matched
+// by file name, so the setting survives a reload once the file is uploaded again.
+export type ExtraImageInput = { kind: 'previous' } | { kind: 'next' } | { kind: 'reference', imageName: string };
+
+// An extra image as it was resolved for one result.
+export interface InputImageRef {
+  kind: ExtraImageInput['kind'];
+  imageId: string;
+  name: string;
+}
+
+export interface CropOptions {
+  mode: 'crop' | 'crop_and_full'; // Send the crop alone, or the full image followed by the crop
+  padding: number; // Added on every side, as a fraction of the box width/height
+  minSize: number; // Crops whose short edge is smaller than this (px) are upscaled to it
+}
+
+export interface ObjectCrop {
+  dataUrl: string;
+  width: number; // Pixel size of the encoded crop
+  height: number;
+  region: [number, number, number, number]; // Padded crop area, [x1, y1, x2, y2] relative to 1000x1000 canvas
 }
 
 export interface BoundingBox {
@@ -28,9 +237,30 @@ export interface BoundingBox {
   label: string;
 }
 
+export interface Polygon {
+  points: [number, number][]; // Outline as [x, y] vertices relative to 1000x1000 canvas
+  label: string;
+}
+
+export interface KeyPoint {
+  point: [number, number]; // [x, y] relative to 1000x1000 canvas
+  label: string;
+}
+
 export interface BboxChildResult {
   parentBox: BoundingBox;
   resultData: string | number | null;
+  metrics?: RequestMetrics;
+  reasoning?: string;
+  crop?: ObjectCrop; // What the model saw, when the child ran on a crop
+  error?: string; // Set when this object's request failed; `resultData` is null then
+  attempts?: AnalysisAttempt[];
+}
+
+export interface ConversationTurn {
+  question: string;
+  answer: string;
+  reasoning?: string;
 }
 
 export type AnalysisStatus = 'idle' | 'loading' | 'success' | 'error';
@@ -39,8 +269,33 @@ export interface AnalysisResult {
   promptId: string;
   status: 'idle' | 'loading' | 'success' | 'error';
   data: string | BoundingBox[] | number | BboxChildResult[] | any | null;
-  error?: string;
-  conversationHistory?: { question: string, answer: string }[];
+  error?: string; // Also set on successful per-object children when some objects failed
+  conversationHistory?: ConversationTurn[];
+  reasoning?: string; // Thinking the model did before its first answer
   requestPayload?: any;
   rawResponse?: any;
-}
\ No newline at end of file
+  attempts?: AnalysisAttempt[];
+  cacheHit?: boolean; // Served from the local response cache instead of the model
+  metrics?: RequestMetrics;
+  followUpMetrics?: RequestMetrics[];
+  imageScale?: ImageScale;
+  tiles?: TileResult[]; // Per-tile detections of a tiled Bounding Box prompt
+  boxFormat?: BoxFormatReport; // Bounding Box prompts
+  profile?: ProfileSnapshot; // The model profile that produced this result
+  sampling?: SamplingSummary; // Prompts with samples > 1
+  inputImages?: InputImageRef[]; // Extra images the model saw after the analyzed one
+  answerProbabilities?: Record<string, number>; // Yes/No and Category, from token log-probabilities where the server reports them
+  categoryMatch?: CategoryMatch; // Category prompts with categories; `data` is the matched category, or the raw answer when invalid
+  schemaViolations?: SchemaViolation[]; // JSON prompts with a schema; empty when the answer conforms
+  yesNoAnswer?: YesNoAnswer; // Yes/No prompts; `data` keeps the answer as written
+}
+
+// A prompt set run against several model profiles for side-by-side evaluation.
+export interface ComparisonRun {
+  profiles: ProfileSnapshot[]; // Column order; the first profile is the baseline for deltas
+  promptIds: string[];
+  imageIds: string[];
+  results: Record<string, Record<string, Record<string, AnalysisResult>>>; // imageId -> promptId -> profileId
+  status: 'running' | 'done' | 'cancelled';
+  progress: { current: number, total: number };
+}